@@ -0,0 +1,189 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const ACCESS_FILE = "allowed-users.json";
+/** A denied user may ask again after this long. */
+const DENIAL_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** A user who asked for access from Telegram. */
+export interface AccessRequest {
+  id: number;
+  /** First and last name, as shown by Telegram. */
+  name: string;
+  username?: string;
+  /** ISO timestamp of the request. */
+  requestedAt: string;
+}
+
+/** A user an admin let in; merged with `access.allowedUserIds`. */
+export interface ApprovedUser extends AccessRequest {
+  /** ISO timestamp of the approval. */
+  approvedAt: string;
+  /** Id of the admin who approved. */
+  approvedBy: number;
+}
+
+/** A request an admin turned down; blocks new requests for a while. */
+export interface DeniedRequest extends AccessRequest {
+  /** ISO timestamp of the denial. */
+  deniedAt: string;
+}
+
+/** Content of `{dataDir}/allowed-users.json`. */
+export interface AccessList {
+  approved: ApprovedUser[];
+  pending: AccessRequest[];
+  denied: DeniedRequest[];
+}
+
+/**
+ * Read the access list; empty when the file does not exist yet. Any other
+ * error (unreadable file, invalid JSON) is thrown: treating it as empty would
+ * let the next write drop every approved user.
+ */
+export async function readAccessList(dataDir: string): Promise<AccessList> {
+  let raw: string;
+  try {
+    raw = await readFile(join(dataDir, ACCESS_FILE), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { approved: [], pending: [], denied: [] };
+    }
+    throw err;
+  }
+  const parsed = JSON.parse(raw) as Partial<AccessList>;
+  return {
+    approved: Array.isArray(parsed.approved) ? parsed.approved : [],
+    pending: Array.isArray(parsed.pending) ? parsed.pending : [],
+    denied: Array.isArray(parsed.denied) ? parsed.denied : [],
+  };
+}
+
+/** Write through a temp file and rename, so a crash never leaves half a file. */
+async function writeAccessList(
+  dataDir: string,
+  list: AccessList,
+): Promise<void> {
+  await mkdir(dataDir, { recursive: true });
+  const path = join(dataDir, ACCESS_FILE);
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, `${JSON.stringify(list, null, 2)}\n`, "utf-8");
+  await rename(tmp, path);
+}
+
+/** Last read-modify-write queued for each dataDir's access list. */
+const updates = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a read-modify-write of the access list after the previous one of the
+ * same dataDir has finished, so concurrent requests and approvals do not
+ * overwrite each other.
+ */
+function updateAccessList<T>(
+  dataDir: string,
+  update: (list: AccessList) => Promise<T>,
+): Promise<T> {
+  const previous = updates.get(dataDir) ?? Promise.resolve();
+  const next = previous.then(() => readAccessList(dataDir)).then(update);
+  updates.set(
+    dataDir,
+    next.catch(() => {}),
+  );
+  return next;
+}
+
+/** Ids of the users approved from Telegram. */
+export async function readApprovedUserIds(dataDir: string): Promise<number[]> {
+  return (await readAccessList(dataDir)).approved.map((u) => u.id);
+}
+
+/**
+ * Record a pending request. Returns "sent" when recorded; otherwise why not:
+ * the user is already "pending" or "approved", or was "denied" less than
+ * a week ago.
+ */
+export async function addAccessRequest(
+  dataDir: string,
+  request: AccessRequest,
+  now = new Date(),
+): Promise<"sent" | "pending" | "approved" | "denied"> {
+  return updateAccessList(dataDir, async (list) => {
+    if (list.approved.some((u) => u.id === request.id)) return "approved";
+    if (list.pending.some((u) => u.id === request.id)) return "pending";
+    const denial = list.denied.find((u) => u.id === request.id);
+    if (
+      denial &&
+      now.getTime() - new Date(denial.deniedAt).getTime() < DENIAL_COOLDOWN_MS
+    ) {
+      return "denied";
+    }
+    list.denied = list.denied.filter((u) => u.id !== request.id);
+    list.pending.push(request);
+    await writeAccessList(dataDir, list);
+    return "sent";
+  });
+}
+
+/**
+ * Approve a pending request. Returns the approved user, or undefined when
+ * there is no pending request for the id (already handled by another admin).
+ */
+export async function approveAccessRequest(
+  dataDir: string,
+  userId: number,
+  adminId: number,
+  now = new Date(),
+): Promise<ApprovedUser | undefined> {
+  return updateAccessList(dataDir, async (list) => {
+    const request = list.pending.find((u) => u.id === userId);
+    if (!request) return undefined;
+    const approved: ApprovedUser = {
+      ...request,
+      approvedAt: now.toISOString(),
+      approvedBy: adminId,
+    };
+    list.pending = list.pending.filter((u) => u.id !== userId);
+    list.approved.push(approved);
+    await writeAccessList(dataDir, list);
+    return approved;
+  });
+}
+
+/**
+ * Turn down a pending request, remembering the denial so the user cannot
+ * ask again right away. Returns the request, or undefined when there was none.
+ */
+export async function denyAccessRequest(
+  dataDir: string,
+  userId: number,
+  now = new Date(),
+): Promise<AccessRequest | undefined> {
+  return updateAccessList(dataDir, async (list) => {
+    const request = list.pending.find((u) => u.id === userId);
+    if (!request) return undefined;
+    list.pending = list.pending.filter((u) => u.id !== userId);
+    list.denied = [
+      ...list.denied.filter((u) => u.id !== userId),
+      { ...request, deniedAt: now.toISOString() },
+    ];
+    await writeAccessList(dataDir, list);
+    return request;
+  });
+}
+
+/**
+ * Remove an approved user. Returns it, or undefined when the id was not
+ * approved from Telegram.
+ */
+export async function revokeAccess(
+  dataDir: string,
+  userId: number,
+): Promise<ApprovedUser | undefined> {
+  return updateAccessList(dataDir, async (list) => {
+    const user = list.approved.find((u) => u.id === userId);
+    if (!user) return undefined;
+    list.approved = list.approved.filter((u) => u.id !== userId);
+    await writeAccessList(dataDir, list);
+    return user;
+  });
+}
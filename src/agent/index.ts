@@ -1,5 +1,11 @@
 import { join } from "node:path";
+import type { Context } from "grammy";
 import type { Agent, ProjectContext } from "../types.js";
+import {
+  BudgetExceededError,
+  checkBudget,
+  recordUsage,
+} from "../usage/budget.js";
 
 /**
  * Return the engine-specific skill directories for the given project.
@@ -21,11 +27,23 @@ export function getSkillsDirs(
  *
  * This factory delegates to the engine adapter on the project context.
  * Command handlers never need to know which engine is in use.
+ *
+ * Calls are recorded in the usage log. When made on behalf of a Telegram
+ * user (`gramCtx`), they are checked against the budget first and throw
+ * `BudgetExceededError` when refused; other calls (crons) are recorded
+ * under user 0.
  */
-export function createAgent(projectCtx: ProjectContext): Agent {
+export function createAgent(
+  projectCtx: ProjectContext,
+  gramCtx?: Context,
+): Agent {
   const { engine } = projectCtx;
   return {
     async call(prompt, options) {
+      if (gramCtx) {
+        const refusal = await checkBudget(projectCtx, gramCtx);
+        if (refusal) throw new BudgetExceededError(refusal);
+      }
       const result = await engine.execute(
         {
           prompt,
@@ -35,6 +53,7 @@ export function createAgent(projectCtx: ProjectContext): Agent {
         },
         projectCtx,
       );
+      await recordUsage(projectCtx, gramCtx?.from?.id ?? 0, result);
       if (!result.success) {
         throw new Error(result.error ?? "Agent call failed");
       }
@@ -1,12 +1,31 @@
 import { Bot } from "grammy";
+import {
+  createAccessCallbackHandler,
+  createAccessHandler,
+  createAccessRevokeHandler,
+} from "./bot/commands/access.js";
+import { createBudgetCallbackHandler } from "./bot/commands/budget.js";
 import { createEngineHandler } from "./bot/commands/engine.js";
 import { createEngineCallbackHandler } from "./bot/commands/engine-callback.js";
+import { createEnginesHandler } from "./bot/commands/engines.js";
+import { createExportHandler } from "./bot/commands/export.js";
 import {
+  createGitBranchCallbackHandler,
+  createGitBranchHandler,
   createGitCallbackHandler,
   createGitCleanHandler,
+  createGitCommitCallbackHandler,
   createGitCommitHandler,
+  createGitDiffCallbackHandler,
+  createGitDiffHandler,
   createGitInitHandler,
+  createGitLogCallbackHandler,
+  createGitLogHandler,
   createGitStatusHandler,
+  createGitWorktreeCallbackHandler,
+  createGitWorktreeHandler,
+  createUndoCallbackHandler,
+  createUndoHandler,
 } from "./bot/commands/git/index.js";
 import { createHelpHandler } from "./bot/commands/help.js";
 import { createInfoHandler } from "./bot/commands/info.js";
@@ -16,20 +35,43 @@ import {
   getCommandsWithDescriptionTooLong,
   loadCommands,
 } from "./bot/commands/loader.js";
+import { publishCommandMenu } from "./bot/commands/menu.js";
+import {
+  createModeCallbackHandler,
+  createModeHandler,
+} from "./bot/commands/mode.js";
 import { createModelHandler } from "./bot/commands/model.js";
 import { createModelCallbackHandler } from "./bot/commands/model-callback.js";
 import {
   createNpmCallbackHandler,
   createNpmHandler,
 } from "./bot/commands/npm/index.js";
+import {
+  createQueueCallbackHandler,
+  createQueueHandler,
+} from "./bot/commands/queue.js";
 import {
   createResetCallbackHandler,
   createResetHandler,
 } from "./bot/commands/reset.js";
 import { clearAllPrompts } from "./bot/commands/resetPrompt.js";
 import { createCleanHandler } from "./bot/commands/session.js";
+import {
+  createSessionDeleteHandler,
+  createSessionNewHandler,
+  createSessionRenameHandler,
+  createSessionsCallbackHandler,
+  createSessionsHandler,
+} from "./bot/commands/sessions.js";
 import { createStartHandler } from "./bot/commands/start.js";
+import {
+  createStopCallbackHandler,
+  createStopHandler,
+} from "./bot/commands/stop.js";
+import { createUsageHandler } from "./bot/commands/usage.js";
 import { startCommandWatcher } from "./bot/commands/watcher.js";
+import { createApprovalCallbackHandler } from "./bot/handlers/approval.js";
+import { createChangesCallbackHandler } from "./bot/handlers/changes.js";
 import {
   createDocumentHandler,
   createMjsCallbackDispatcher,
@@ -38,7 +80,9 @@ import {
   createVoiceHandler,
 } from "./bot/handlers/index.js";
 import { createAuthMiddleware } from "./bot/middleware/auth.js";
+import { createGroupMiddleware } from "./bot/middleware/group.js";
 import { createRateLimitMiddleware } from "./bot/middleware/rateLimit.js";
+import { createRoleMiddleware } from "./bot/middleware/roles.js";
 import type { ProjectContext } from "./types.js";
 
 export interface BotHandle {
@@ -75,8 +119,13 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
   // Wire per-bot middleware
   const { middleware: rateLimitMw, cleanup: rateLimitCleanup } =
     createRateLimitMiddleware(projectCtx, debounceActiveUsers);
+  bot.use(createGroupMiddleware(debounceActiveUsers));
+  // Access requests come from users who are not allowed yet
+  bot.on("callback_query:data", createAccessCallbackHandler(projectCtx));
   bot.use(createAuthMiddleware(projectCtx));
+  bot.use(createRoleMiddleware(projectCtx));
   bot.use(rateLimitMw);
+  bot.on("callback_query:data", createBudgetCallbackHandler(projectCtx));
 
   // Wire commands (only when enabled)
   const cmd = config.commands;
@@ -87,14 +136,58 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
     bot.on("callback_query:data", createResetCallbackHandler(projectCtx));
   }
   if (cmd.clean.enabled) bot.command("clean", createCleanHandler(projectCtx));
+  if (cmd.stop.enabled) {
+    bot.command("stop", createStopHandler(projectCtx));
+    bot.on("callback_query:data", createStopCallbackHandler(projectCtx));
+  }
+  if (cmd.queue.enabled) {
+    bot.command("queue", createQueueHandler(projectCtx));
+    bot.on("callback_query:data", createQueueCallbackHandler(projectCtx));
+  }
+  if (cmd.usage.enabled) bot.command("usage", createUsageHandler(projectCtx));
+  if (cmd.engines.enabled) {
+    bot.command("engines", createEnginesHandler(projectCtx));
+  }
+  if (cmd.sessions.enabled) {
+    bot.command("sessions", createSessionsHandler(projectCtx));
+    bot.command("session_new", createSessionNewHandler(projectCtx));
+    bot.command("session_rename", createSessionRenameHandler(projectCtx));
+    bot.command("session_delete", createSessionDeleteHandler(projectCtx));
+    bot.on("callback_query:data", createSessionsCallbackHandler(projectCtx));
+  }
+  if (cmd.export.enabled)
+    bot.command("export", createExportHandler(projectCtx));
+  if (cmd.mode.enabled) {
+    bot.command("mode", createModeHandler(projectCtx));
+    bot.on("callback_query:data", createModeCallbackHandler(projectCtx));
+  }
+  if (config.access.allowRequests) {
+    bot.command("access", createAccessHandler(projectCtx));
+    bot.command("access_revoke", createAccessRevokeHandler(projectCtx));
+  }
   if (cmd.info.enabled) bot.command("info", createInfoHandler(projectCtx));
 
   if (cmd.git.enabled) {
     bot.command("git_init", createGitInitHandler(projectCtx));
     bot.command("git_status", createGitStatusHandler(projectCtx));
+    bot.command("git_diff", createGitDiffHandler(projectCtx));
+    bot.command("git_log", createGitLogHandler(projectCtx));
     bot.command("git_commit", createGitCommitHandler(projectCtx));
     bot.command("git_clean", createGitCleanHandler(projectCtx));
+    bot.command("git_branch", createGitBranchHandler(projectCtx));
+    bot.command("git_worktree", createGitWorktreeHandler(projectCtx));
     bot.on("callback_query:data", createGitCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createGitDiffCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createGitLogCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createGitCommitCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createChangesCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createGitBranchCallbackHandler(projectCtx));
+    bot.on("callback_query:data", createGitWorktreeCallbackHandler(projectCtx));
+  }
+
+  if (cmd.undo.enabled) {
+    bot.command("undo", createUndoHandler(projectCtx));
+    bot.on("callback_query:data", createUndoCallbackHandler(projectCtx));
   }
 
   if (cmd.npm.enabled) {
@@ -139,6 +232,10 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
     return next();
   });
 
+  if (config.engineApprovals.enabled) {
+    bot.on("callback_query:data", createApprovalCallbackHandler(projectCtx));
+  }
+
   // Generic callback dispatcher for .mjs commands that export `callbackHandler`
   bot.on("callback_query:data", createMjsCallbackDispatcher(projectCtx));
 
@@ -185,8 +282,17 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
     help: cmd.help.enabled,
     reset: cmd.reset.enabled,
     clean: cmd.clean.enabled,
+    stop: cmd.stop.enabled,
+    queue: cmd.queue.enabled,
+    usage: cmd.usage.enabled,
+    engines: cmd.engines.enabled,
+    sessions: cmd.sessions.enabled,
+    export: cmd.export.enabled,
+    mode: cmd.mode.enabled,
+    access: config.access.allowRequests,
     info: cmd.info.enabled,
     git: cmd.git.enabled,
+    undo: cmd.undo.enabled,
     model: cmd.model.enabled,
     engine: cmd.engine.enabled,
     npm: cmd.npm.enabled,
@@ -218,12 +324,7 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
         `Command description(s) exceed Telegram's 256-character limit:\n${details}`,
       );
     }
-    await bot.api.setMyCommands(
-      commandsForMenu.map((c) => ({
-        command: c.command,
-        description: c.description,
-      })),
-    );
+    await publishCommandMenu(bot.api, commandsForMenu, config.access, logger);
     logger.info(
       { count: commandsForMenu.length },
       "Commands registered with Telegram",
@@ -238,6 +339,7 @@ export async function startBot(projectCtx: ProjectContext): Promise<BotHandle> {
     logger,
     skillsDirs,
     enabledFlags,
+    config.access,
   );
 
   return {
@@ -0,0 +1,245 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import {
+  type AccessRequest,
+  addAccessRequest,
+  approveAccessRequest,
+  denyAccessRequest,
+  readAccessList,
+  revokeAccess,
+} from "../../access/store.js";
+import type { ProjectContext } from "../../types.js";
+import { isAdmin } from "../middleware/auth.js";
+
+/** "Ada Lovelace (@ada, 123456789)" */
+function userLabel(user: Pick<AccessRequest, "id" | "name" | "username">) {
+  const handle = user.username ? `@${user.username}, ` : "";
+  return `${user.name} (${handle}${user.id})`;
+}
+
+async function notifyAdmins(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  request: AccessRequest,
+): Promise<void> {
+  const projectName = ctx.config.name ?? ctx.config.slug;
+  const keyboard = new InlineKeyboard()
+    .text("Approve", `ac:ok:${request.id}`)
+    .text("Deny", `ac:no:${request.id}`);
+  for (const adminId of ctx.config.access.adminUserIds) {
+    try {
+      await gramCtx.api.sendMessage(
+        adminId,
+        `Access request (${projectName}): ${userLabel(request)}`,
+        { reply_markup: keyboard },
+      );
+    } catch (err) {
+      ctx.logger.warn({ err, adminId }, "Could not notify admin");
+    }
+  }
+}
+
+/** Tell the requester about the decision; they may have blocked the bot. */
+async function notifyRequester(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  userId: number,
+  text: string,
+): Promise<void> {
+  try {
+    await gramCtx.api.sendMessage(userId, text);
+  } catch (err) {
+    ctx.logger.warn({ err, userId }, "Could not notify access requester");
+  }
+}
+
+/**
+ * Callback query handler for access requests. Registered before the auth
+ * middleware, since the requester is not allowed yet. Recognizes:
+ * - `ac:req` — an unknown user asks for access; admins get Approve/Deny.
+ * - `ac:ok:<id>` / `ac:no:<id>` — an admin decides (admins only).
+ * Ignores all other callbacks.
+ */
+export function createAccessCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("ac:")) {
+      return next();
+    }
+
+    const { config, logger } = ctx;
+    const from = gramCtx.from;
+    if (!config.access.allowRequests || !from) {
+      await gramCtx.answerCallbackQuery({ text: "Access requests are off." });
+      return;
+    }
+
+    if (data === "ac:req") {
+      if (
+        config.access.allowedUserIds.includes(from.id) ||
+        isAdmin(ctx, from.id)
+      ) {
+        await gramCtx.answerCallbackQuery({ text: "You already have access." });
+        return;
+      }
+      const request: AccessRequest = {
+        id: from.id,
+        name: [from.first_name, from.last_name].filter(Boolean).join(" "),
+        username: from.username,
+        requestedAt: new Date().toISOString(),
+      };
+      const outcome = await addAccessRequest(config.dataDir, request);
+      if (outcome !== "sent") {
+        await gramCtx.answerCallbackQuery({
+          text: {
+            pending: "Your request was already sent.",
+            approved: "You already have access.",
+            denied: "Your request was declined recently. Try again later.",
+          }[outcome],
+        });
+        return;
+      }
+      logger.info({ userId: from.id }, "Access requested");
+      await notifyAdmins(ctx, gramCtx, request);
+      await gramCtx.answerCallbackQuery({ text: "Request sent." });
+      try {
+        await gramCtx.editMessageText(
+          "Access requested. You will get a message when an admin decides.",
+          { reply_markup: undefined },
+        );
+      } catch {
+        // Message may already be gone
+      }
+      return;
+    }
+
+    if (!isAdmin(ctx, from.id)) {
+      await gramCtx.answerCallbackQuery({ text: "Admins only." });
+      return;
+    }
+
+    const match = data.match(/^ac:(ok|no):(\d+)$/);
+    if (!match) {
+      await gramCtx.answerCallbackQuery();
+      return;
+    }
+    const userId = Number(match[2]);
+    const approve = match[1] === "ok";
+    const user = approve
+      ? await approveAccessRequest(config.dataDir, userId, from.id)
+      : await denyAccessRequest(config.dataDir, userId);
+
+    let result: string;
+    if (!user) {
+      result = "This request was already handled.";
+    } else if (approve) {
+      logger.info({ userId, adminId: from.id }, "Access approved");
+      result = `Access approved for ${userLabel(user)}.`;
+      await notifyRequester(
+        ctx,
+        gramCtx,
+        userId,
+        "Your access request was approved. Send a message to get started.",
+      );
+    } else {
+      logger.info({ userId, adminId: from.id }, "Access denied");
+      result = `Access denied for ${userLabel(user)}.`;
+      await notifyRequester(
+        ctx,
+        gramCtx,
+        userId,
+        "Your access request was declined.",
+      );
+    }
+
+    await gramCtx.answerCallbackQuery({ text: result });
+    try {
+      await gramCtx.editMessageText(result, { reply_markup: undefined });
+    } catch {
+      // Message may already be gone
+    }
+  };
+}
+
+/**
+ * Returns a handler for the /access command (admins only).
+ * Lists users allowed in config, users approved from Telegram and pending
+ * requests.
+ */
+export function createAccessHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    if (!isAdmin(ctx, gramCtx.from?.id)) {
+      await gramCtx.reply("Admins only.");
+      return;
+    }
+
+    const { allowedUserIds } = ctx.config.access;
+    const list = await readAccessList(ctx.config.dataDir);
+    const lines = [
+      `Config (${allowedUserIds.length})`,
+      ...allowedUserIds.map((id) => `• ${id}`),
+      "",
+      `Approved (${list.approved.length})`,
+      ...list.approved.map(
+        (u) => `• ${userLabel(u)} — ${u.approvedAt.slice(0, 10)}`,
+      ),
+      "",
+      `Pending (${list.pending.length})`,
+      ...list.pending.map(
+        (u) => `• ${userLabel(u)} — ${u.requestedAt.slice(0, 10)}`,
+      ),
+    ];
+    if (list.approved.length > 0) {
+      lines.push("", "Revoke with /access_revoke <id>.");
+    }
+
+    const keyboard = new InlineKeyboard();
+    for (const request of list.pending) {
+      keyboard
+        .text(`Approve ${request.name}`, `ac:ok:${request.id}`)
+        .text("Deny", `ac:no:${request.id}`)
+        .row();
+    }
+
+    await gramCtx.reply(lines.join("\n"), {
+      reply_markup: list.pending.length > 0 ? keyboard : undefined,
+    });
+  };
+}
+
+/**
+ * Returns a handler for `/access_revoke <id>` (admins only).
+ * Removes a user approved from Telegram; users listed in config stay allowed.
+ */
+export function createAccessRevokeHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const adminId = gramCtx.from?.id;
+    if (!isAdmin(ctx, adminId)) {
+      await gramCtx.reply("Admins only.");
+      return;
+    }
+
+    const match = gramCtx.message?.text?.match(
+      /^\/access_revoke(?:@\w+)?\s+(\d+)\s*$/i,
+    );
+    if (!match) {
+      await gramCtx.reply("Usage: /access_revoke <user id>");
+      return;
+    }
+    const userId = Number(match[1]);
+
+    const user = await revokeAccess(ctx.config.dataDir, userId);
+    if (!user) {
+      const inConfig = ctx.config.access.allowedUserIds.includes(userId);
+      await gramCtx.reply(
+        inConfig
+          ? `${userId} is listed in access.allowedUserIds; remove it from the config instead.`
+          : `${userId} was not approved from Telegram.`,
+      );
+      return;
+    }
+
+    ctx.logger.info({ userId, adminId }, "Access revoked");
+    await gramCtx.reply(`Access revoked for ${userLabel(user)}.`);
+  };
+}
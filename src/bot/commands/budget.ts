@@ -0,0 +1,36 @@
+import type { Context, NextFunction } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import { addBudgetLift } from "../../usage/budget.js";
+import { isAdmin } from "../middleware/auth.js";
+
+/**
+ * Callback query handler for the "Lift" button sent to admins when a budget
+ * cap is reached. Recognizes data prefixed with `bg:` (followed by the lift
+ * key, e.g. `bg:user:42@day:2026-10-19`) and ignores all other callbacks.
+ */
+export function createBudgetCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("bg:")) {
+      return next();
+    }
+
+    const userId = gramCtx.from?.id;
+    if (!isAdmin(ctx, userId)) {
+      await gramCtx.answerCallbackQuery({ text: "Admins only." });
+      return;
+    }
+
+    const key = data.slice("bg:".length);
+    await addBudgetLift(ctx.config.dataDir, key);
+    ctx.logger.info({ userId, key }, "Budget block lifted");
+
+    await gramCtx.answerCallbackQuery({ text: "Block lifted." });
+    try {
+      await gramCtx.editMessageReplyMarkup({ reply_markup: undefined });
+      await gramCtx.reply(`Budget block lifted (${key}).`);
+    } catch {
+      // Message may already be gone
+    }
+  };
+}
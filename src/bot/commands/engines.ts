@@ -0,0 +1,95 @@
+import type { Context } from "grammy";
+import {
+  checkAllEngines,
+  renderEngineHealthTable,
+} from "../../engine/health.js";
+import { ENGINE_NAMES } from "../../engine/types.js";
+import { sendChunkedResponse } from "../../telegram/chunker.js";
+import type { ProjectContext } from "../../types.js";
+
+/** Projects with a check in progress: dry runs are not cheap, one at a time. */
+const checking = new Set<string>();
+
+/**
+ * Returns a handler for the /engines command.
+ * Checks every supported engine as this project would run it and replies
+ * with a table. `/engines quick` skips the dry-run prompt.
+ */
+export function createEnginesHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const chatId = gramCtx.chat?.id;
+    if (!chatId) return;
+
+    const messageText = gramCtx.message?.text ?? "";
+    const dryRun = !/^\/engines(?:@\w+)?\s+quick\b/i.test(messageText);
+
+    const { slug } = ctx.config;
+    if (checking.has(slug)) {
+      await gramCtx.reply("An engine check is already running, please wait.");
+      return;
+    }
+    checking.add(slug);
+
+    const statusMsg = await gramCtx
+      .reply("_Checking engines..._", { parse_mode: "Markdown" })
+      .catch((err) => {
+        checking.delete(slug);
+        throw err;
+      });
+
+    // Dry runs can take minutes: run in the background so the bot keeps
+    // handling other updates meanwhile.
+    void (async () => {
+      try {
+        const results = await checkAllEngines(ctx, {
+          dryRun,
+          userId: gramCtx.from?.id,
+          onEngine: (name, index) => {
+            gramCtx.api
+              .editMessageText(
+                chatId,
+                statusMsg.message_id,
+                `_Checking ${name} (${index + 1}/${ENGINE_NAMES.length})..._`,
+                { parse_mode: "Markdown" },
+              )
+              .catch(() => {
+                // Ignore edit errors
+              });
+          },
+        });
+        ctx.logger.info(
+          {
+            engines: results.map((r) => ({
+              engine: r.engine,
+              status: r.status,
+            })),
+          },
+          "Engine health check",
+        );
+
+        try {
+          await gramCtx.api.deleteMessage(chatId, statusMsg.message_id);
+        } catch {
+          // Ignore delete errors
+        }
+
+        const note = dryRun
+          ? ""
+          : "\n_Dry run skipped: auth and latency unknown._";
+        await sendChunkedResponse(
+          gramCtx,
+          `\`\`\`\n${renderEngineHealthTable(results)}\n\`\`\`${note}`,
+        );
+      } catch (err) {
+        ctx.logger.error({ err }, "Engine health check failed");
+        await gramCtx
+          .reply(
+            `Engine check failed: ${err instanceof Error ? err.message : String(err)}`,
+          )
+          .catch(() => {});
+      } finally {
+        checking.delete(slug);
+      }
+    })();
+  };
+}
@@ -0,0 +1,59 @@
+import type { Context } from "grammy";
+import { InputFile } from "grammy";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  renderTranscript,
+} from "../../transcript/render.js";
+import { readTranscript } from "../../transcript/store.js";
+import type { ProjectContext } from "../../types.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+
+/**
+ * Returns a handler for the /export command.
+ * Sends the transcript of the user's active session as a document:
+ * `/export` (Markdown), `/export json` or `/export html`.
+ */
+export function createExportHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { config, logger } = ctx;
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !workspace) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+
+    const match = gramCtx.message?.text?.match(
+      /^\/export(?:@\w+)?(?:\s+(\S+))?\s*$/i,
+    );
+    const arg = (match?.[1] ?? "md").toLowerCase();
+    const format = (arg === "markdown" ? "md" : arg) as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      await gramCtx.reply("Usage: /export [md|json|html]");
+      return;
+    }
+
+    const transcript = await readTranscript(workspace.dir);
+    if (transcript.entries.length === 0) {
+      await gramCtx.reply("Nothing to export yet: this session is empty.");
+      return;
+    }
+
+    const exportedAt = new Date();
+    const document = renderTranscript(transcript, format, {
+      project: config.name ?? config.slug,
+      exportedAt,
+    });
+    const date = exportedAt.toISOString().slice(0, 10);
+    const fileName = `${config.slug}-${transcript.session}-${date}.${format}`;
+
+    logger.info(
+      { userId, format, entries: transcript.entries.length },
+      "Transcript exported",
+    );
+    await gramCtx.replyWithDocument(
+      new InputFile(Buffer.from(document, "utf-8"), fileName),
+    );
+  };
+}
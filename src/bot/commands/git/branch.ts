@@ -0,0 +1,186 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../../types.js";
+import { gitExec } from "./exec.js";
+import { isGitCwdBusy, resolveGitCwd } from "./worktree.js";
+
+/** Branch buttons shown by /git_branch. */
+const MAX_BRANCHES = 20;
+
+interface Branches {
+  current: string | undefined;
+  /** Local branches, by name. */
+  names: string[];
+}
+
+async function listBranches(cwd: string): Promise<Branches> {
+  const { stdout } = await gitExec(cwd, [
+    "for-each-ref",
+    "--format=%(HEAD)%00%(refname:short)",
+    "refs/heads/",
+  ]);
+  let current: string | undefined;
+  const names = stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [head, name] = line.split("\0");
+      if (head === "*") current = name;
+      return name;
+    });
+  return { current, names };
+}
+
+function gitError(err: unknown): string {
+  return (
+    (err as { stderr?: string }).stderr?.trim() ||
+    (err instanceof Error ? err.message : String(err))
+  );
+}
+
+function buildBranchList(branches: Branches): {
+  text: string;
+  keyboard: InlineKeyboard;
+} {
+  const keyboard = new InlineKeyboard();
+  branches.names.slice(0, MAX_BRANCHES).forEach((name, i) => {
+    if (name !== branches.current) keyboard.text(name, `gb:${i}`).row();
+  });
+  const lines = [
+    branches.current
+      ? `On branch ${branches.current}.`
+      : "Not on a branch (detached HEAD).",
+  ];
+  if (branches.names.length > 1) lines.push("Switch to:");
+  if (branches.names.length > MAX_BRANCHES) {
+    lines.push(
+      `(${branches.names.length - MAX_BRANCHES} more not shown: use /git_branch <name>)`,
+    );
+  }
+  lines.push("Create one with /git_branch <name>.");
+  return { text: lines.join("\n"), keyboard };
+}
+
+/**
+ * `/git_branch` lists local branches with buttons to switch;
+ * `/git_branch <name>` switches to the branch, creating it from the current
+ * HEAD when it does not exist. Uncommitted changes go along, as with
+ * `git switch`; git refuses when they would be overwritten.
+ */
+export function createGitBranchHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { logger } = ctx;
+    const name = (gramCtx.message?.text ?? "")
+      .replace(/^\/git_branch(@\w+)?\s*/, "")
+      .trim();
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const branches = await listBranches(cwd);
+
+      if (!name) {
+        const { text, keyboard } = buildBranchList(branches);
+        await gramCtx.reply(text, { reply_markup: keyboard });
+        return;
+      }
+
+      if (name === branches.current) {
+        await gramCtx.reply(`Already on ${name}.`);
+        return;
+      }
+      if (isGitCwdBusy(ctx, gramCtx)) {
+        await gramCtx.reply(
+          "Wait for the running message to finish (or /stop it) before switching branches.",
+        );
+        return;
+      }
+
+      const exists = branches.names.includes(name);
+      if (!exists) {
+        try {
+          await gitExec(cwd, ["check-ref-format", "--branch", name]);
+        } catch {
+          await gramCtx.reply(`"${name}" is not a valid branch name.`);
+          return;
+        }
+      }
+
+      try {
+        await gitExec(cwd, exists ? ["switch", name] : ["switch", "-c", name]);
+      } catch (err) {
+        await gramCtx.reply(`Could not switch to ${name}:\n${gitError(err)}`);
+        return;
+      }
+      logger.info({ branch: name, created: !exists }, "Switched branch");
+      await gramCtx.reply(
+        exists ? `Switched to ${name}.` : `Created and switched to ${name}.`,
+      );
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/git_branch failed",
+      );
+      await gramCtx.reply(`Failed to list branches: ${gitError(err)}`);
+    }
+  };
+}
+
+/**
+ * Callback query handler for `/git_branch` inline keyboard interactions.
+ * Recognizes data prefixed with `gb:` (`gb:<index>` in the branch list, read
+ * again on click) and ignores all other callbacks.
+ */
+export function createGitBranchCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("gb:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const branches = await listBranches(cwd);
+      const name = branches.names[Number(data.slice("gb:".length))];
+      if (!name) {
+        await gramCtx.answerCallbackQuery({
+          text: "The branch list changed. Send /git_branch again.",
+        });
+        return;
+      }
+      if (isGitCwdBusy(ctx, gramCtx)) {
+        await gramCtx.answerCallbackQuery({
+          text: "Wait for the running message to finish (or /stop it).",
+        });
+        return;
+      }
+
+      try {
+        await gitExec(cwd, ["switch", name]);
+      } catch (err) {
+        await gramCtx.editMessageText(
+          `Could not switch to ${name}:\n${gitError(err)}`,
+          { reply_markup: undefined },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+      logger.info({ branch: name }, "Switched branch");
+      const { text, keyboard } = buildBranchList(await listBranches(cwd));
+      await gramCtx.editMessageText(`Switched to ${name}.\n\n${text}`, {
+        reply_markup: keyboard,
+      });
+      await gramCtx.answerCallbackQuery();
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "git_branch callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
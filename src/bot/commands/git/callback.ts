@@ -2,6 +2,7 @@ import type { Context, NextFunction } from "grammy";
 import { InlineKeyboard } from "grammy";
 import type { ProjectContext } from "../../../types.js";
 import { gitExec } from "./exec.js";
+import { resolveGitCwd } from "./worktree.js";
 
 /**
  * Callback query handler for `/git_clean` inline keyboard interactions.
@@ -14,10 +15,10 @@ export function createGitCallbackHandler(ctx: ProjectContext) {
       return next();
     }
 
-    const { config, logger } = ctx;
-    const cwd = config.cwd;
+    const { logger } = ctx;
 
     try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
       if (data.startsWith("gc:select:")) {
         const file = data.slice("gc:select:".length);
         const keyboard = new InlineKeyboard()
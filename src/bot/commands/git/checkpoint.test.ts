@@ -0,0 +1,92 @@
+import { execFileSync } from "node:child_process";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createCheckpoint,
+  listCheckpoints,
+  restoreCheckpoint,
+} from "./checkpoint.js";
+
+let cwd: string;
+let config: { cwd: string; dataDir: string };
+
+function git(...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+}
+
+function read(file: string): string | undefined {
+  const path = join(cwd, file);
+  return existsSync(path) ? readFileSync(path, "utf-8") : undefined;
+}
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "hal-checkpoint-test-"));
+  config = { cwd, dataDir: join(cwd, ".hal", "users") };
+  git("init", "-q");
+  writeFileSync(join(cwd, "a.txt"), "a\n");
+  git("add", ".");
+  git("-c", "user.name=t", "-c", "user.email=t@t", "commit", "-qm", "init");
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true, force: true });
+});
+
+describe("checkpoints", () => {
+  it("snapshots without touching the index, and skips unchanged trees", async () => {
+    writeFileSync(join(cwd, "a.txt"), "staged\n");
+    git("add", "a.txt");
+    writeFileSync(join(cwd, "wip.txt"), "wip\n");
+    const status = git("status", "--short");
+
+    expect(await createCheckpoint(config, "first", 5)).toBeDefined();
+    expect(await createCheckpoint(config, "again", 5)).toBeUndefined();
+    expect(git("status", "--short")).toBe(status);
+    expect((await listCheckpoints(cwd)).map((c) => c.label)).toEqual(["first"]);
+  });
+
+  it("restores files, deletes new ones and keeps HAL's user data", async () => {
+    writeFileSync(join(cwd, "wip.txt"), "wip\n");
+    await createCheckpoint(config, "turn", 5);
+
+    writeFileSync(join(cwd, "a.txt"), "broken\n");
+    rmSync(join(cwd, "wip.txt"));
+    writeFileSync(join(cwd, "new.txt"), "new\n");
+    mkdirSync(config.dataDir, { recursive: true });
+    writeFileSync(join(config.dataDir, "session.json"), "{}");
+
+    const [checkpoint] = await listCheckpoints(cwd);
+    expect(await restoreCheckpoint(config, checkpoint, 5)).toBe(3);
+    expect(read("a.txt")).toBe("a\n");
+    expect(read("wip.txt")).toBe("wip\n");
+    expect(read("new.txt")).toBeUndefined();
+    expect(read(".hal/users/session.json")).toBe("{}");
+
+    // The replaced state became the newest checkpoint
+    const [undone] = await listCheckpoints(cwd);
+    expect(undone.label).toBe("Before /undo");
+    await restoreCheckpoint(config, undone, 5);
+    expect(read("a.txt")).toBe("broken\n");
+    expect(read("new.txt")).toBe("new\n");
+  });
+
+  it("keeps only the newest checkpoints", async () => {
+    for (const n of [1, 2, 3]) {
+      writeFileSync(join(cwd, "a.txt"), `${n}\n`);
+      await createCheckpoint(config, `turn ${n}`, 2);
+    }
+    expect((await listCheckpoints(cwd)).map((c) => c.label)).toEqual([
+      "turn 3",
+      "turn 2",
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { copyFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import type { ResolvedProjectConfig } from "../../../config.js";
+import { gitExec, isGitRepo } from "./exec.js";
+
+/**
+ * Checkpoints: snapshots of the project taken before each engine run
+ * (commands.undo), restored with /undo.
+ *
+ * A checkpoint is a commit, like the ones `git stash` makes, kept under a
+ * hidden ref (`refs/worktree/hal/checkpoints/<ms timestamp>`, private to the
+ * worktree, see commands.git.worktrees). Its tree holds every
+ * file under the project cwd that is not gitignored, untracked files included,
+ * and its parent is the HEAD of the moment. HAL's own user data directory is
+ * left out. Neither the index nor the working tree is touched when taking one.
+ */
+
+const REF_PREFIX = "refs/worktree/hal/checkpoints/";
+
+/** Checkpoints are internal commits; don't depend on the user's git identity. */
+const COMMIT_ENV = {
+  GIT_AUTHOR_NAME: "HAL",
+  GIT_AUTHOR_EMAIL: "hal@localhost",
+  GIT_COMMITTER_NAME: "HAL",
+  GIT_COMMITTER_EMAIL: "hal@localhost",
+};
+
+export type CheckpointConfig = Pick<ResolvedProjectConfig, "cwd" | "dataDir">;
+
+export interface Checkpoint {
+  /** Ref suffix (ms timestamp), used as the id in /undo buttons. */
+  id: string;
+  sha: string;
+  tree: string;
+  createdAt: Date;
+  /** What came next, e.g. the prompt of the engine run. */
+  label: string;
+}
+
+/** The project cwd, minus the user data directory when it lives inside it. */
+export function projectPathspec(config: CheckpointConfig): string[] {
+  const spec = ["."];
+  const data = relative(config.cwd, config.dataDir);
+  if (data && !data.startsWith("..") && !isAbsolute(data)) {
+    spec.push(`:(exclude)${data}`);
+  }
+  return spec;
+}
+
+/**
+ * Write the current state of the project as a tree object, through a copy
+ * of the index so the user's staging area is left alone.
+ */
+export async function snapshotTree(config: CheckpointConfig): Promise<string> {
+  const { cwd } = config;
+  const dir = await mkdtemp(join(tmpdir(), "hal-checkpoint-"));
+  const env = { GIT_INDEX_FILE: join(dir, "index") };
+  try {
+    const { stdout } = await gitExec(cwd, ["rev-parse", "--git-path", "index"]);
+    // A repository without commits may have no index yet
+    await copyFile(resolve(cwd, stdout.trim()), env.GIT_INDEX_FILE).catch(
+      () => {},
+    );
+    await gitExec(cwd, ["add", "-A", "--", ...projectPathspec(config)], {
+      env,
+    });
+    return (await gitExec(cwd, ["write-tree"], { env })).stdout.trim();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** Checkpoints of the project, newest first. */
+export async function listCheckpoints(cwd: string): Promise<Checkpoint[]> {
+  const { stdout } = await gitExec(cwd, [
+    "for-each-ref",
+    "--sort=-refname",
+    "--format=%(refname)%00%(objectname)%00%(tree)%00%(contents:subject)",
+    REF_PREFIX,
+  ]);
+  return stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [ref, sha, tree, label] = line.split("\0");
+      const id = ref.slice(REF_PREFIX.length);
+      return { id, sha, tree, label, createdAt: new Date(Number(id)) };
+    });
+}
+
+/**
+ * Snapshot the project before an engine run. Returns undefined when the
+ * project is not a git repository or nothing changed since the latest
+ * checkpoint. Only the newest `keep` checkpoints are kept. `tree` is a
+ * snapshot the caller already took.
+ */
+export async function createCheckpoint(
+  config: CheckpointConfig,
+  label: string,
+  keep: number,
+  tree?: string,
+): Promise<Checkpoint | undefined> {
+  const { cwd } = config;
+  if (!tree && !(await isGitRepo(cwd))) return undefined;
+
+  tree ??= await snapshotTree(config);
+  const existing = await listCheckpoints(cwd);
+  if (existing[0]?.tree === tree) return undefined;
+
+  const args = ["commit-tree", tree, "-m", label];
+  const head = await gitExec(cwd, ["rev-parse", "--verify", "-q", "HEAD"])
+    .then(({ stdout }) => stdout.trim())
+    .catch(() => undefined);
+  if (head) args.push("-p", head);
+  const sha = (await gitExec(cwd, args, { env: COMMIT_ENV })).stdout.trim();
+
+  let createdAt = Date.now();
+  if (existing.some((c) => c.id === String(createdAt))) createdAt++;
+  const id = String(createdAt);
+  await gitExec(cwd, ["update-ref", `${REF_PREFIX}${id}`, sha]);
+
+  for (const old of existing.slice(Math.max(keep - 1, 0))) {
+    await gitExec(cwd, ["update-ref", "-d", `${REF_PREFIX}${old.id}`]);
+  }
+  return { id, sha, tree, label, createdAt: new Date(createdAt) };
+}
+
+/**
+ * Bring the project files back to a checkpoint: files it holds are rewritten,
+ * files created since are deleted. HEAD, branches and the index are left
+ * as they are. The state being replaced is saved as a checkpoint first, so
+ * an /undo can itself be undone. Returns the number of files changed.
+ */
+export async function restoreCheckpoint(
+  config: CheckpointConfig,
+  checkpoint: Checkpoint,
+  keep: number,
+): Promise<number> {
+  const { cwd } = config;
+  await createCheckpoint(config, "Before /undo", keep);
+
+  const pathspec = projectPathspec(config);
+  const current = await snapshotTree(config);
+  const { stdout } = await gitExec(cwd, [
+    "diff",
+    "--name-status",
+    "--no-renames",
+    "--relative",
+    "-z",
+    checkpoint.tree,
+    current,
+    "--",
+    ...pathspec,
+  ]);
+  const fields = stdout.split("\0").filter(Boolean);
+  let changed = 0;
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    changed++;
+    if (fields[i] === "A") {
+      await rm(join(cwd, fields[i + 1]), { force: true });
+    }
+  }
+  if (changed > 0) {
+    await gitExec(cwd, [
+      "restore",
+      `--source=${checkpoint.sha}`,
+      "--worktree",
+      "--",
+      ...pathspec,
+    ]);
+  }
+  return changed;
+}
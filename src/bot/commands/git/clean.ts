@@ -2,6 +2,7 @@ import type { Context } from "grammy";
 import { InlineKeyboard } from "grammy";
 import type { ProjectContext } from "../../../types.js";
 import { gitExec } from "./exec.js";
+import { resolveGitCwd } from "./worktree.js";
 
 /** Parse `git status --short` into a list of file paths. */
 function parseChangedFiles(statusOutput: string): string[] {
@@ -14,12 +15,12 @@ function parseChangedFiles(statusOutput: string): string[] {
 
 export function createGitCleanHandler(ctx: ProjectContext) {
   return async (gramCtx: Context): Promise<void> => {
-    const { config, logger } = ctx;
-    const cwd = config.cwd;
+    const { logger } = ctx;
     const messageText = gramCtx.message?.text ?? "";
     const fileArg = messageText.replace(/^\/git_clean\s*/, "").trim();
 
     try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
       const { stdout } = await gitExec(cwd, ["status", "--short"]);
       const files = parseChangedFiles(stdout);
 
@@ -0,0 +1,68 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { readStagedDiff, truncateDiff } from "./commit.js";
+
+function fileDiff(path: string, lines: number): string {
+  const body = Array.from({ length: lines }, (_, i) => `+line ${i}`);
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${lines} @@`,
+    ...body,
+    "",
+  ].join("\n");
+}
+
+describe("truncateDiff", () => {
+  it("returns diffs within the budget unchanged", () => {
+    const diff = fileDiff("a.ts", 3);
+    expect(truncateDiff(diff, 1000)).toBe(diff);
+  });
+
+  it("keeps small files whole, cuts large ones and drops lockfile contents", () => {
+    const small = fileDiff("src/small.ts", 2);
+    const diff = [
+      fileDiff("package-lock.json", 500),
+      small,
+      fileDiff("src/big.ts", 500),
+    ].join("");
+
+    const result = truncateDiff(diff, 1000);
+    expect(result.length).toBeLessThanOrEqual(1100);
+    expect(result).toContain(small);
+    expect(result).toContain(
+      "diff --git a/package-lock.json b/package-lock.json\n… lockfile changes omitted",
+    );
+    expect(result).toContain("diff --git a/src/big.ts b/src/big.ts");
+    expect(result).toMatch(/… \d+ more lines\n$/);
+  });
+});
+
+describe("readStagedDiff", () => {
+  it("reads staged diffs over Node's default 1 MiB output limit", async () => {
+    const cwd = mkdtempSync(join(tmpdir(), "hal-commit-test-"));
+    try {
+      const git = (...args: string[]) =>
+        execFileSync("git", args, { cwd, encoding: "utf-8" });
+      git("init", "-q");
+      writeFileSync(join(cwd, "small.txt"), "small\n");
+      const line = `${"x".repeat(70)}\n`;
+      writeFileSync(join(cwd, "big.txt"), line.repeat(20_000));
+      git("add", ".");
+
+      const diff = await readStagedDiff(cwd);
+      expect(diff?.length).toBeGreaterThan(1024 * 1024);
+
+      const truncated = truncateDiff(diff ?? "", 2000);
+      expect(truncated.length).toBeLessThanOrEqual(2200);
+      expect(truncated).toContain("+small");
+      expect(truncated).toContain("diff --git a/big.txt b/big.txt");
+    } finally {
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,100 +1,603 @@
-import type { Context } from "grammy";
+import { readFile } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
 import { createAgent } from "../../../agent/index.js";
 import type { ProjectContext } from "../../../types.js";
-import { gitExec } from "./exec.js";
+import { BudgetExceededError } from "../../../usage/budget.js";
+import { gitExec, LARGE_OUTPUT } from "./exec.js";
+import { resolveGitCwd } from "./worktree.js";
 
-const COMMIT_MSG_PROMPT = `Generate a concise git commit message (one line, max 72 chars) for the following changes. Return ONLY the commit message, no quotes or explanation.
+const COMMIT_MSG_PROMPT = `Generate a git commit message for the following changes: a subject line of at most 72 chars, optionally followed by a blank line and a short body explaining why. Return ONLY the commit message, no quotes, code fences or explanation.`;
 
-`;
+const CONVENTIONAL_PROMPT =
+  "Follow the Conventional Commits format for the subject: `type(scope): description`, where type is one of feat, fix, docs, style, refactor, perf, test, build, ci, chore; the scope is optional; add `!` after the scope for breaking changes.";
 
+/** Diff characters sent to the engine to write the message. */
+const MAX_DIFF_CHARS = 12_000;
+/** File toggles shown in the picker; All / None cover the rest too. */
+const MAX_FILES = 30;
+const MAX_PATH_CHARS = 40;
+
+/** Their diffs say little about intent and are often huge. */
+const LOCKFILES = new Set([
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "composer.lock",
+  "go.sum",
+]);
+
+interface StatusFile {
+  path: string;
+  /** Porcelain XY code, e.g. `M `, ` D`, `??`. */
+  code: string;
+}
+
+/** A /git_commit in progress: one per user and chat. */
+interface CommitDraft {
+  id: string;
+  cwd: string;
+  files: StatusFile[];
+  /** Indexes into `files`. */
+  selected: Set<number>;
+  amend: boolean;
+  /** The selection is staged: `/git_commit <message>` commits it. */
+  staged: boolean;
+  /** Generated message, once proposed. */
+  message?: string;
+}
+
+const drafts = new Map<string, CommitDraft>();
+let nextDraftId = 1;
+
+function draftKey(gramCtx: Context): string {
+  return `${gramCtx.chat?.id}:${gramCtx.from?.id}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function gitError(err: unknown): string {
+  return (
+    (err as { stderr?: string }).stderr?.trim() ||
+    (err instanceof Error ? err.message : String(err))
+  );
+}
+
+/** Keep the lines of `text` that fit in `max` chars, noting what was cut. */
+function cutLines(text: string, max: number): string {
+  const lines = text.split("\n");
+  let kept = 0;
+  let size = 0;
+  while (kept < lines.length && size + lines[kept].length + 1 <= max) {
+    size += lines[kept].length + 1;
+    kept++;
+  }
+  // Always keep the `diff --git` line: the file name matters most
+  kept = Math.max(kept, 1);
+  const omitted = lines.slice(kept).filter(Boolean).length;
+  return omitted > 0
+    ? `${lines.slice(0, kept).join("\n")}\n… ${omitted} more lines\n`
+    : text;
+}
+
+/**
+ * Fit a unified diff in `budget` chars without dropping files: lockfile
+ * contents are left out, files smaller than a fair share of the budget are
+ * kept whole and the larger ones share what remains, each cut at a line.
+ */
+export function truncateDiff(diff: string, budget: number): string {
+  if (diff.length <= budget) return diff;
+
+  const sections = diff
+    .split(/^(?=diff --git )/m)
+    .filter(Boolean)
+    .map((section) => {
+      const path = section.match(/^diff --git a\/.* b\/(.*)$/m)?.[1] ?? "";
+      if (!LOCKFILES.has(basename(path))) return section;
+      return `${section.split("\n")[0]}\n… lockfile changes omitted\n`;
+    });
+
+  const order = sections
+    .map((section, i) => ({ i, length: section.length }))
+    .sort((a, b) => a.length - b.length);
+  const result: string[] = [];
+  let remaining = budget;
+  order.forEach(({ i }, n) => {
+    const share = Math.floor(remaining / (order.length - n));
+    result[i] = cutLines(sections[i], share);
+    remaining = Math.max(0, remaining - result[i].length);
+  });
+  return result.join("");
+}
+
+/**
+ * Staged diff (against `base` when amending) for message generation.
+ * Undefined when it is too large to read even with `LARGE_OUTPUT`: the
+ * message is then written from the stat alone.
+ */
+export async function readStagedDiff(
+  cwd: string,
+  base: string[] = [],
+): Promise<string | undefined> {
+  try {
+    const { stdout } = await gitExec(
+      cwd,
+      ["diff", "--cached", "--no-color", ...base],
+      LARGE_OUTPUT,
+    );
+    return stdout;
+  } catch (err) {
+    if (
+      (err as { code?: unknown }).code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER"
+    ) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+async function listStatusFiles(cwd: string): Promise<StatusFile[]> {
+  const { stdout } = await gitExec(cwd, [
+    "status",
+    "--porcelain",
+    "-z",
+    "--no-renames",
+    "-uall",
+  ]);
+  return stdout
+    .split("\0")
+    .filter(Boolean)
+    .map((entry) => ({ code: entry.slice(0, 2), path: entry.slice(3) }));
+}
+
+async function hasHead(cwd: string): Promise<boolean> {
+  return gitExec(cwd, ["rev-parse", "--verify", "-q", "HEAD"])
+    .then(() => true)
+    .catch(() => false);
+}
+
+/** Stage exactly the selected files: whole files, deletions included. */
+async function stageSelection(draft: CommitDraft): Promise<void> {
+  const selected = draft.files.filter((_, i) => draft.selected.has(i));
+  const unselected = draft.files.filter((_, i) => !draft.selected.has(i));
+  if (unselected.length > 0) {
+    await gitExec(draft.cwd, [
+      "reset",
+      "-q",
+      "--",
+      ...unselected.map((f) => f.path),
+    ]);
+  }
+  if (selected.length > 0) {
+    await gitExec(draft.cwd, [
+      "add",
+      "-A",
+      "--",
+      ...selected.map((f) => f.path),
+    ]);
+  }
+  draft.staged = true;
+}
+
+/**
+ * Commit message template: `commands.git.commit.template`, otherwise the
+ * file set as git's `commit.template`, without its comment lines.
+ */
+async function readTemplate(
+  ctx: ProjectContext,
+  cwd: string,
+): Promise<string | undefined> {
+  const { template } = ctx.config.commands.git.commit;
+  if (template) return template;
+  const path = await gitExec(cwd, [
+    "config",
+    "--path",
+    "--get",
+    "commit.template",
+  ])
+    .then(({ stdout }) => stdout.trim())
+    .catch(() => "");
+  if (!path) return undefined;
+  const content = await readFile(resolve(cwd, path), "utf-8").catch(() => "");
+  const text = content
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+async function generateMessage(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  draft: CommitDraft,
+): Promise<string> {
+  const { cwd, amend } = draft;
+  const parts = [COMMIT_MSG_PROMPT];
+  if (ctx.config.commands.git.commit.conventional) {
+    parts.push(CONVENTIONAL_PROMPT);
+  }
+  const template = await readTemplate(ctx, cwd);
+  if (template) {
+    parts.push(`Follow this commit message template:\n${template}`);
+  }
+
+  // An amended commit replaces the last one: describe all of its changes
+  let base: string[] = [];
+  if (amend) {
+    const { stdout: previous } = await gitExec(cwd, [
+      "log",
+      "-1",
+      "--format=%B",
+    ]);
+    parts.push(
+      `This replaces the last commit, whose message was:\n${previous.trim()}`,
+    );
+    const { stdout: parent } = await gitExec(cwd, [
+      "rev-parse",
+      "--verify",
+      "-q",
+      "HEAD^",
+    ]).catch(() => ({ stdout: "" }));
+    base = parent.trim()
+      ? ["HEAD^"]
+      : [
+          (
+            await gitExec(cwd, ["hash-object", "-t", "tree", "/dev/null"])
+          ).stdout.trim(),
+        ];
+  }
+
+  const [{ stdout: stat }, diff] = await Promise.all([
+    gitExec(cwd, ["diff", "--cached", "--stat", ...base]),
+    readStagedDiff(cwd, base),
+  ]);
+  parts.push(
+    diff === undefined
+      ? `Changes (the diff is too large to include):\n${stat}`
+      : `Changes:\n${stat}\n${truncateDiff(diff, MAX_DIFF_CHARS)}`,
+  );
+
+  const generated = await createAgent(ctx, gramCtx).call(parts.join("\n\n"));
+  return generated
+    .trim()
+    .replace(/^```\w*\n?|\n?```$/g, "")
+    .trim()
+    .replace(/^["']|["']$/g, "");
+}
+
+async function commit(
+  cwd: string,
+  message: string,
+  amend: boolean,
+): Promise<string> {
+  const args = ["commit", "-m", message];
+  if (amend) args.push("--amend");
+  const { stdout } = await gitExec(cwd, args);
+  return stdout.trim().split("\n")[0] ?? "Committed.";
+}
+
+function shortPath(path: string): string {
+  return path.length > MAX_PATH_CHARS
+    ? `…${path.slice(-MAX_PATH_CHARS)}`
+    : path;
+}
+
+function statusLabel(code: string): string {
+  if (code === "??") return "new";
+  if (code.includes("D")) return "deleted";
+  if (code.includes("A")) return "added";
+  return "modified";
+}
+
+function pickerText(draft: CommitDraft, lastSubject?: string): string {
+  const lines = [
+    `Select the files to commit (${draft.selected.size} of ${draft.files.length}):`,
+  ];
+  if (draft.files.length > MAX_FILES) {
+    lines.push(
+      `${draft.files.length - MAX_FILES} more not shown: All / None include them.`,
+    );
+  }
+  if (draft.amend) {
+    lines.push(
+      `Amending the last commit${lastSubject ? `: ${lastSubject}` : "."}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function pickerKeyboard(draft: CommitDraft, canAmend: boolean): InlineKeyboard {
+  const { id } = draft;
+  const keyboard = new InlineKeyboard();
+  draft.files.slice(0, MAX_FILES).forEach((file, i) => {
+    const mark = draft.selected.has(i) ? "☑" : "☐";
+    keyboard
+      .text(
+        `${mark} ${shortPath(file.path)} (${statusLabel(file.code)})`,
+        `gm:${id}:t:${i}`,
+      )
+      .row();
+  });
+  if (draft.files.length > 0) {
+    keyboard.text("All", `gm:${id}:a`).text("None", `gm:${id}:z`).row();
+  }
+  if (canAmend) {
+    keyboard
+      .text(
+        draft.amend ? "☑ Amend last commit" : "☐ Amend last commit",
+        `gm:${id}:m`,
+      )
+      .row();
+  }
+  return keyboard
+    .text("Generate message ›", `gm:${id}:g`)
+    .text("Cancel", `gm:${id}:x`);
+}
+
+async function lastSubject(cwd: string): Promise<string | undefined> {
+  if (!(await hasHead(cwd))) return undefined;
+  const { stdout } = await gitExec(cwd, ["log", "-1", "--format=%s"]);
+  return stdout.trim();
+}
+
+async function showPicker(
+  gramCtx: Context,
+  draft: CommitDraft,
+  edit: boolean,
+): Promise<void> {
+  const subject = await lastSubject(draft.cwd);
+  const text = pickerText(draft, subject);
+  const reply_markup = pickerKeyboard(draft, subject !== undefined);
+  if (edit) {
+    await gramCtx.editMessageText(text, { reply_markup });
+  } else {
+    await gramCtx.reply(text, { reply_markup });
+  }
+}
+
+function proposalText(draft: CommitDraft, message: string): string {
+  const count =
+    draft.selected.size === 1 ? "1 file" : `${draft.selected.size} files`;
+  let head = `Commit ${count} with:`;
+  if (draft.amend) {
+    head =
+      draft.selected.size > 0
+        ? `Amend the last commit (${count} added) with:`
+        : "Reword the last commit:";
+  }
+  return `${head}\n<pre>${escapeHtml(message)}</pre>`;
+}
+
+/**
+ * `/git_commit` — pick the changed files to commit with inline toggles, then
+ * review a message the engine writes from the diff (following
+ * `commands.git.commit`) and commit, edit or cancel. `/git_commit --amend`
+ * starts with "Amend last commit" on.
+ *
+ * `/git_commit <message>` commits the files staged by the pending flow, or
+ * all changes, with that message (`--amend` amends).
+ */
 export function createGitCommitHandler(ctx: ProjectContext) {
   return async (gramCtx: Context): Promise<void> => {
-    const { config, logger } = ctx;
-    const cwd = config.cwd;
+    const { logger } = ctx;
     const messageText = gramCtx.message?.text ?? "";
-    const userMessage = messageText.replace(/^\/git_commit\s*/, "").trim();
+    let userMessage = messageText.replace(/^\/git_commit(@\w+)?\s*/, "").trim();
+    const amend = /^--amend(\s|$)/.test(userMessage);
+    if (amend) userMessage = userMessage.slice("--amend".length).trim();
 
     try {
-      await gitExec(cwd, ["add", "."]);
-
-      const { stdout: statusOut } = await gitExec(cwd, [
-        "status",
-        "--porcelain",
-      ]);
-      if (!statusOut.trim()) {
-        await gramCtx.reply("Nothing to commit — working tree is clean.");
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const key = draftKey(gramCtx);
+      const pending = drafts.get(key);
+
+      if (amend && !(await hasHead(cwd))) {
+        await gramCtx.reply("No commit to amend yet.");
         return;
       }
 
-      let commitMessage: string;
-
       if (userMessage) {
-        commitMessage = userMessage;
-      } else {
-        const statusMsg = await gramCtx.reply(
-          "_Generating commit message..._",
-          { parse_mode: "Markdown" },
+        // Reuse the selection staged by the pending flow ("Edit")
+        const draft =
+          pending?.staged && pending.cwd === cwd ? pending : undefined;
+        drafts.delete(key);
+        if (!draft) {
+          await gitExec(cwd, ["add", "."]);
+          const { stdout: statusOut } = await gitExec(cwd, [
+            "status",
+            "--porcelain",
+          ]);
+          if (!statusOut.trim() && !amend) {
+            await gramCtx.reply("Nothing to commit — working tree is clean.");
+            return;
+          }
+        }
+        const summary = await commit(
+          cwd,
+          userMessage,
+          amend || (draft?.amend ?? false),
         );
+        await gramCtx.reply(`\`\`\`\n${summary}\n\`\`\``, {
+          parse_mode: "Markdown",
+        });
+        return;
+      }
+
+      const files = await listStatusFiles(cwd);
+      if (files.length === 0 && !amend) {
+        await gramCtx.reply(
+          "Nothing to commit — working tree is clean. Use /git_commit --amend to reword the last commit.",
+        );
+        return;
+      }
+
+      // Start from what is already staged, or from everything
+      const staged = files
+        .map((file, i) => (file.code[0] !== " " && file.code !== "??" ? i : -1))
+        .filter((i) => i >= 0);
+      const draft: CommitDraft = {
+        id: String(nextDraftId++),
+        cwd,
+        files,
+        selected: new Set(staged.length > 0 ? staged : files.map((_, i) => i)),
+        amend,
+        staged: false,
+      };
+      drafts.set(key, draft);
+      await showPicker(gramCtx, draft, false);
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/git_commit failed",
+      );
+      await gramCtx.reply(`Commit failed: ${gitError(err)}`);
+    }
+  };
+}
 
+/**
+ * Callback query handler for `/git_commit` inline keyboard interactions.
+ * Recognizes data prefixed with `gm:` (`gm:<draft>:t:<file>` toggles a file,
+ * `gm:<draft>:a|z|m|g|c|e|x` for all, none, amend, generate, commit, edit and
+ * cancel) and ignores all other callbacks.
+ */
+export function createGitCommitCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("gm:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    const [, id, action, rawIndex] = data.split(":");
+    const key = draftKey(gramCtx);
+    const draft = drafts.get(key);
+    if (draft?.id !== id) {
+      await gramCtx.answerCallbackQuery({
+        text: "This commit is no longer pending. Send /git_commit again.",
+      });
+      return;
+    }
+
+    try {
+      if (
+        action === "t" ||
+        action === "a" ||
+        action === "z" ||
+        action === "m"
+      ) {
+        if (action === "t") {
+          const i = Number(rawIndex);
+          if (draft.selected.has(i)) draft.selected.delete(i);
+          else if (draft.files[i]) draft.selected.add(i);
+        } else if (action === "a") {
+          draft.selected = new Set(draft.files.map((_, i) => i));
+        } else if (action === "z") {
+          draft.selected.clear();
+        } else {
+          draft.amend = !draft.amend;
+        }
+        await showPicker(gramCtx, draft, true);
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (action === "x") {
+        drafts.delete(key);
+        await gramCtx.editMessageText(
+          draft.staged
+            ? "Cancelled. The selected files stay staged."
+            : "Cancelled.",
+          { reply_markup: undefined },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (action === "g") {
+        if (draft.selected.size === 0 && !draft.amend) {
+          await gramCtx.answerCallbackQuery({
+            text: "Select at least one file.",
+          });
+          return;
+        }
+        await gramCtx.answerCallbackQuery();
+        await stageSelection(draft);
+        await gramCtx.editMessageText("Generating commit message…", {
+          reply_markup: undefined,
+        });
         try {
-          const { stdout: diffOut } = await gitExec(cwd, [
-            "diff",
-            "--cached",
-            "--stat",
-          ]);
-          const agent = createAgent(ctx);
-          const generated = await agent.call(
-            `${COMMIT_MSG_PROMPT}${diffOut || statusOut}`,
-          );
-          commitMessage = generated.trim().replace(/^["']|["']$/g, "");
-
-          try {
-            await gramCtx.api.deleteMessage(
-              gramCtx.chat!.id,
-              statusMsg.message_id,
-            );
-          } catch {
-            // ignore delete errors
-          }
+          draft.message = await generateMessage(ctx, gramCtx, draft);
         } catch (err) {
-          try {
-            await gramCtx.api.deleteMessage(
-              gramCtx.chat!.id,
-              statusMsg.message_id,
-            );
-          } catch {
-            // ignore delete errors
-          }
           logger.error(
             { error: err instanceof Error ? err.message : String(err) },
             "AI commit message generation failed",
           );
-          await gramCtx.reply(
-            "Failed to generate commit message. Please provide one:\n`/git_commit your message here`",
-            { parse_mode: "Markdown" },
+          const reason =
+            err instanceof BudgetExceededError
+              ? err.message
+              : "Failed to generate commit message.";
+          await gramCtx.editMessageText(
+            `${reason} The selected files are staged: send /git_commit your message here`,
+            { reply_markup: undefined },
           );
           return;
         }
+        const keyboard = new InlineKeyboard()
+          .text(draft.amend ? "Amend" : "Commit", `gm:${id}:c`)
+          .text("Edit", `gm:${id}:e`)
+          .text("Cancel", `gm:${id}:x`);
+        await gramCtx.editMessageText(proposalText(draft, draft.message), {
+          parse_mode: "HTML",
+          reply_markup: keyboard,
+        });
+        return;
       }
 
-      const { stdout: commitOut } = await gitExec(cwd, [
-        "commit",
-        "-m",
-        commitMessage,
-      ]);
+      if (action === "e") {
+        await gramCtx.answerCallbackQuery();
+        await gramCtx.reply(
+          `Send your message as <code>/git_commit your message</code>: it commits the selected files. The proposal, to copy:\n<pre>/git_commit ${escapeHtml(draft.message ?? "")}</pre>`,
+          { parse_mode: "HTML" },
+        );
+        return;
+      }
 
-      const summary = commitOut.trim().split("\n")[0] ?? "Committed.";
-      await gramCtx.reply(`\`\`\`\n${summary}\n\`\`\``, {
-        parse_mode: "Markdown",
-      });
+      if (action === "c" && draft.message) {
+        drafts.delete(key);
+        const summary = await commit(draft.cwd, draft.message, draft.amend);
+        logger.info({ amend: draft.amend }, "Committed from /git_commit");
+        await gramCtx.editMessageText(`<pre>${escapeHtml(summary)}</pre>`, {
+          parse_mode: "HTML",
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
     } catch (err) {
       logger.error(
-        { error: err instanceof Error ? err.message : String(err) },
-        "/git_commit failed",
-      );
-      await gramCtx.reply(
-        `Commit failed: ${err instanceof Error ? err.message : String(err)}`,
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "git_commit callback failed",
       );
+      try {
+        await gramCtx.editMessageText(`Commit failed: ${gitError(err)}`, {
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+      } catch {
+        // ignore
+      }
     }
   };
 }
@@ -0,0 +1,340 @@
+import { basename } from "node:path";
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard, InputFile } from "grammy";
+import type { ProjectContext } from "../../../types.js";
+import { gitExec, LARGE_OUTPUT } from "./exec.js";
+import { resolveGitCwd } from "./worktree.js";
+
+/** Raw diff characters per message (Telegram's limit is 4096 after parsing). */
+const PAGE_CHARS = 3500;
+/** Diffs longer than this many pages are sent as a `.diff` document instead. */
+const MAX_PAGES = 8;
+/** File buttons shown in the list; the rest are summarized. */
+const MAX_FILES = 30;
+
+/** `u` = working tree vs index, `s` = index vs HEAD (`--cached`). */
+type DiffView = "u" | "s";
+
+interface ChangedFile {
+  path: string;
+  /** Undefined for binary files. */
+  added?: number;
+  deleted?: number;
+  /** Not yet tracked by git (unstaged view only). */
+  untracked?: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function viewLabel(view: DiffView): string {
+  return view === "s" ? "Staged" : "Unstaged";
+}
+
+/** Parse `git diff --numstat -z --no-renames` ("added\tdeleted\tpath\0"). */
+function parseNumstat(output: string): ChangedFile[] {
+  return output
+    .split("\0")
+    .filter(Boolean)
+    .map((entry) => {
+      const [added, deleted, ...path] = entry.split("\t");
+      return added === "-"
+        ? { path: path.join("\t") }
+        : {
+            path: path.join("\t"),
+            added: Number(added),
+            deleted: Number(deleted),
+          };
+    });
+}
+
+async function listChangedFiles(
+  cwd: string,
+  view: DiffView,
+): Promise<ChangedFile[]> {
+  const args = ["diff", "--numstat", "-z", "--no-renames"];
+  if (view === "s") args.push("--cached");
+  const files = parseNumstat((await gitExec(cwd, args)).stdout);
+  if (view === "u") {
+    const { stdout } = await gitExec(cwd, [
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "-z",
+    ]);
+    for (const path of stdout.split("\0").filter(Boolean)) {
+      files.push({ path, untracked: true });
+    }
+  }
+  return files;
+}
+
+async function readFileDiff(
+  cwd: string,
+  view: DiffView,
+  file: ChangedFile,
+): Promise<string> {
+  if (file.untracked) {
+    // --no-index exits with 1 when the files differ, which is always here
+    try {
+      return (
+        await gitExec(
+          cwd,
+          ["diff", "--no-index", "--", "/dev/null", file.path],
+          LARGE_OUTPUT,
+        )
+      ).stdout;
+    } catch (err) {
+      // Other failures (e.g. output over the limit) carry partial stdout too
+      const { code, stdout } = err as { code?: unknown; stdout?: string };
+      if (code === 1 && stdout) return stdout;
+      throw err;
+    }
+  }
+  const args = ["diff", "--no-renames"];
+  if (view === "s") args.push("--cached");
+  args.push("--", file.path);
+  return (await gitExec(cwd, args, LARGE_OUTPUT)).stdout;
+}
+
+/** Split a diff into pages on line boundaries; overlong lines are cut. */
+function paginateDiff(diff: string, pageChars = PAGE_CHARS): string[] {
+  const pages: string[] = [];
+  let page = "";
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    for (let i = 0; i === 0 || i < line.length; i += pageChars) {
+      const chunk = line.slice(i, i + pageChars);
+      if (page && page.length + chunk.length + 1 > pageChars) {
+        pages.push(page);
+        page = "";
+      }
+      page = page ? `${page}\n${chunk}` : chunk;
+    }
+  }
+  if (page) pages.push(page);
+  return pages;
+}
+
+function fileLabel(file: ChangedFile): string {
+  if (file.untracked) return `${file.path} (new)`;
+  if (file.added === undefined) return `${file.path} (binary)`;
+  return `${file.path} +${file.added} −${file.deleted}`;
+}
+
+function buildFileList(
+  view: DiffView,
+  files: ChangedFile[],
+): { text: string; keyboard: InlineKeyboard } {
+  const other: DiffView = view === "s" ? "u" : "s";
+  const keyboard = new InlineKeyboard();
+  files.slice(0, MAX_FILES).forEach((file, index) => {
+    keyboard.text(fileLabel(file), `gd:f:${view}:${index}:0`).row();
+  });
+  keyboard.text(`Show ${viewLabel(other).toLowerCase()}`, `gd:l:${other}`);
+
+  if (files.length === 0) {
+    return { text: `No ${viewLabel(view).toLowerCase()} changes.`, keyboard };
+  }
+  const more =
+    files.length > MAX_FILES
+      ? `\n(${files.length - MAX_FILES} more not shown: use /git_diff <path>)`
+      : "";
+  const count = files.length === 1 ? "1 file" : `${files.length} files`;
+  return {
+    text: `${viewLabel(view)} changes (${count}):${more}`,
+    keyboard,
+  };
+}
+
+function buildPage(
+  view: DiffView,
+  index: number,
+  file: ChangedFile,
+  pages: string[],
+  page: number,
+): { text: string; keyboard: InlineKeyboard } {
+  const keyboard = new InlineKeyboard();
+  if (pages.length > 1) {
+    if (page > 0) keyboard.text("◀ Prev", `gd:f:${view}:${index}:${page - 1}`);
+    if (page < pages.length - 1) {
+      keyboard.text("Next ▶", `gd:f:${view}:${index}:${page + 1}`);
+    }
+    keyboard.row();
+  }
+  keyboard.text("⬅ Files", `gd:l:${view}`);
+  if (pages.length > 1) keyboard.text("📄 .diff", `gd:d:${view}:${index}`);
+
+  const position = pages.length > 1 ? ` · ${page + 1}/${pages.length}` : "";
+  const text = `<b>${escapeHtml(file.path)}</b> · ${viewLabel(view).toLowerCase()}${position}\n<pre><code class="language-diff">${escapeHtml(pages[page])}</code></pre>`;
+  return { text, keyboard };
+}
+
+async function sendDiffDocument(
+  gramCtx: Context,
+  view: DiffView,
+  file: ChangedFile,
+  diff: string,
+): Promise<void> {
+  await gramCtx.replyWithDocument(
+    new InputFile(Buffer.from(diff, "utf-8"), `${basename(file.path)}.diff`),
+    { caption: `${file.path} (${viewLabel(view).toLowerCase()})` },
+  );
+}
+
+/**
+ * Reply with the diff of one file: a code block when it fits in one message,
+ * a `.diff` document otherwise.
+ */
+export async function replyWithDiff(
+  gramCtx: Context,
+  path: string,
+  caption: string,
+  diff: string,
+): Promise<void> {
+  const pages = paginateDiff(diff);
+  if (pages.length > 1) {
+    await gramCtx.replyWithDocument(
+      new InputFile(Buffer.from(diff, "utf-8"), `${basename(path)}.diff`),
+      { caption: `${path} (${caption})` },
+    );
+    return;
+  }
+  await gramCtx.reply(
+    `<b>${escapeHtml(path)}</b> · ${escapeHtml(caption)}\n<pre><code class="language-diff">${escapeHtml(pages[0] ?? "")}</code></pre>`,
+    { parse_mode: "HTML" },
+  );
+}
+
+/**
+ * `/git_diff [staged] [path]` — list changed files as buttons, or show the
+ * diff of one file. Without `staged`, shows working-tree changes (including
+ * untracked files).
+ */
+export function createGitDiffHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { logger } = ctx;
+    const messageText = gramCtx.message?.text ?? "";
+    let arg = messageText.replace(/^\/git_diff(@\w+)?\s*/, "").trim();
+    let view: DiffView = "u";
+    const staged = arg.match(/^(staged|--staged|--cached)(\s+|$)/);
+    if (staged) {
+      view = "s";
+      arg = arg.slice(staged[0].length).trim();
+    }
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const files = await listChangedFiles(cwd, view);
+
+      if (!arg) {
+        const { text, keyboard } = buildFileList(view, files);
+        await gramCtx.reply(text, { reply_markup: keyboard });
+        return;
+      }
+
+      const index = files.findIndex((f) => f.path === arg);
+      if (index === -1) {
+        await gramCtx.reply(
+          `File \`${arg}\` has no ${viewLabel(view).toLowerCase()} changes.`,
+          { parse_mode: "Markdown" },
+        );
+        return;
+      }
+
+      const file = files[index];
+      const diff = await readFileDiff(cwd, view, file);
+      const pages = paginateDiff(diff);
+      if (pages.length > MAX_PAGES) {
+        await sendDiffDocument(gramCtx, view, file, diff);
+        return;
+      }
+      const { text, keyboard } = buildPage(view, index, file, pages, 0);
+      await gramCtx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/git_diff failed",
+      );
+      await gramCtx.reply(
+        `Failed to get git diff: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Callback query handler for `/git_diff` inline keyboard interactions.
+ * Recognizes data prefixed with `gd:` (`gd:l:<view>`, `gd:f:<view>:<i>:<page>`,
+ * `gd:d:<view>:<i>`) and ignores all other callbacks. Files are referenced by
+ * their index in the current list, which is read again on every click.
+ */
+export function createGitDiffCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("gd:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    const [, action, rawView, rawIndex, rawPage] = data.split(":");
+    const view: DiffView = rawView === "s" ? "s" : "u";
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const files = await listChangedFiles(cwd, view);
+
+      if (action === "l") {
+        const { text, keyboard } = buildFileList(view, files);
+        await gramCtx.editMessageText(text, { reply_markup: keyboard });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      const index = Number(rawIndex);
+      const file = files[index];
+      if (!file) {
+        await gramCtx.answerCallbackQuery({
+          text: "The changes moved on. Send /git_diff again.",
+        });
+        return;
+      }
+
+      const diff = await readFileDiff(cwd, view, file);
+      const pages = paginateDiff(diff);
+      if (pages.length === 0) {
+        await gramCtx.answerCallbackQuery({
+          text: `${file.path} has no changes any more.`,
+        });
+        return;
+      }
+
+      if (action === "d" || pages.length > MAX_PAGES) {
+        await gramCtx.answerCallbackQuery();
+        await sendDiffDocument(gramCtx, view, file, diff);
+        return;
+      }
+
+      const page = Math.min(Number(rawPage) || 0, pages.length - 1);
+      const { text, keyboard } = buildPage(view, index, file, pages, page);
+      await gramCtx.editMessageText(text, {
+        parse_mode: "HTML",
+        reply_markup: keyboard,
+      });
+      await gramCtx.answerCallbackQuery();
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "git_diff callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
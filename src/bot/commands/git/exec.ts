@@ -3,11 +3,33 @@ import { promisify } from "node:util";
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Output limit for commands printing file contents (diff, show,
+ * format-patch): large outputs are sent as documents, so they must not fail
+ * on Node's default 1 MiB `maxBuffer`.
+ */
+export const LARGE_OUTPUT = { maxBuffer: 64 * 1024 * 1024 };
+
+interface GitExecOptions {
+  /** Added to the process environment. */
+  env?: Record<string, string>;
+  /** Bytes of output accepted; Node's default (1 MiB) when unset. */
+  maxBuffer?: number;
+}
+
+/** Run git in `cwd`. */
 export async function gitExec(
   cwd: string,
   args: string[],
+  options: GitExecOptions = {},
 ): Promise<{ stdout: string; stderr: string }> {
-  return execFileAsync("git", args, { cwd, timeout: 30_000 });
+  const { env, maxBuffer } = options;
+  return execFileAsync("git", args, {
+    cwd,
+    timeout: 30_000,
+    maxBuffer,
+    env: env ? { ...process.env, ...env } : undefined,
+  });
 }
 
 export async function isGitRepo(cwd: string): Promise<boolean> {
@@ -1,5 +1,22 @@
+export {
+  createGitBranchCallbackHandler,
+  createGitBranchHandler,
+} from "./branch.js";
 export { createGitCallbackHandler } from "./callback.js";
 export { createGitCleanHandler } from "./clean.js";
-export { createGitCommitHandler } from "./commit.js";
+export {
+  createGitCommitCallbackHandler,
+  createGitCommitHandler,
+} from "./commit.js";
+export {
+  createGitDiffCallbackHandler,
+  createGitDiffHandler,
+} from "./diff.js";
 export { createGitInitHandler } from "./init.js";
+export { createGitLogCallbackHandler, createGitLogHandler } from "./log.js";
 export { createGitStatusHandler } from "./status.js";
+export { createUndoCallbackHandler, createUndoHandler } from "./undo.js";
+export {
+  createGitWorktreeCallbackHandler,
+  createGitWorktreeHandler,
+} from "./worktree.js";
@@ -0,0 +1,312 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard, InputFile } from "grammy";
+import type { ProjectContext } from "../../../types.js";
+import { gitExec, LARGE_OUTPUT } from "./exec.js";
+import { isGitCwdBusy, resolveGitCwd } from "./worktree.js";
+
+/** Commits listed by a bare /git_log, and the most `/git_log <n>` accepts. */
+const DEFAULT_COUNT = 30;
+const MAX_COUNT = 200;
+/** Commits per page of the list. */
+const PAGE_SIZE = 10;
+const MAX_SUBJECT_CHARS = 40;
+/** `git show --stat` characters shown (Telegram's limit is 4096 after parsing). */
+const MAX_SHOW_CHARS = 3500;
+/** Hash length in callback data: unambiguous in practice, and fits in 64 bytes. */
+const HASH_CHARS = 12;
+
+interface LogEntry {
+  hash: string;
+  author: string;
+  /** Relative commit date, as git prints it ("2 hours ago"). */
+  date: string;
+  subject: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function gitError(err: unknown): string {
+  return (
+    (err as { stderr?: string }).stderr?.trim() ||
+    (err instanceof Error ? err.message : String(err))
+  );
+}
+
+async function hasCommits(cwd: string): Promise<boolean> {
+  return gitExec(cwd, ["rev-parse", "--verify", "-q", "HEAD"])
+    .then(() => true)
+    .catch(() => false);
+}
+
+async function readLog(cwd: string, count: number): Promise<LogEntry[]> {
+  const { stdout } = await gitExec(cwd, [
+    "log",
+    `-n${count}`,
+    `--abbrev=${HASH_CHARS}`,
+    "--format=%h%x1f%an%x1f%ar%x1f%s",
+  ]);
+  return stdout
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, author, date, subject] = line.split("\x1f");
+      return { hash, author, date, subject };
+    });
+}
+
+function shortSubject(subject: string): string {
+  return subject.length > MAX_SUBJECT_CHARS
+    ? `${subject.slice(0, MAX_SUBJECT_CHARS - 1)}…`
+    : subject;
+}
+
+function buildPage(
+  entries: LogEntry[],
+  count: number,
+  page: number,
+): { text: string; keyboard: InlineKeyboard } {
+  const pages = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+  const shown = entries.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE);
+
+  const header =
+    pages > 1
+      ? `<b>Last ${entries.length} commits</b> · page ${current + 1}/${pages}`
+      : `<b>Last ${entries.length} commit(s)</b>`;
+  const lines = shown.map(
+    (e) =>
+      `<code>${e.hash.slice(0, 7)}</code> · ${escapeHtml(e.author)} · ${escapeHtml(e.date)}\n${escapeHtml(e.subject)}`,
+  );
+
+  const keyboard = new InlineKeyboard();
+  for (const e of shown) {
+    keyboard
+      .text(
+        `${e.hash.slice(0, 7)} ${shortSubject(e.subject)}`,
+        `gl:s:${e.hash}`,
+      )
+      .row();
+  }
+  if (current > 0) keyboard.text("‹ Newer", `gl:p:${count}:${current - 1}`);
+  if (current < pages - 1) {
+    keyboard.text("Older ›", `gl:p:${count}:${current + 1}`);
+  }
+  return {
+    text: `${header}\n\n${lines.join("\n\n")}\n\nTap a commit to inspect it.`,
+    keyboard,
+  };
+}
+
+/** Parents of a commit: more than one for a merge. */
+async function parentCount(cwd: string, hash: string): Promise<number> {
+  const { stdout } = await gitExec(cwd, ["show", "-s", "--format=%P", hash]);
+  return stdout.trim().split(" ").filter(Boolean).length;
+}
+
+/**
+ * `/git_log` — list the last commits (`/git_log <n>` for the last n), a page
+ * at a time. Each commit is a button: its `git show --stat`, with buttons to
+ * get the full patch and to revert it.
+ */
+export function createGitLogHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { logger } = ctx;
+    const arg = (gramCtx.message?.text ?? "")
+      .replace(/^\/git_log(@\w+)?\s*/, "")
+      .trim();
+
+    const count = arg ? Number(arg) : DEFAULT_COUNT;
+    if (!Number.isInteger(count) || count < 1) {
+      await gramCtx.reply(
+        "Usage: /git_log, or /git_log <n> for the last n commits.",
+      );
+      return;
+    }
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      if (!(await hasCommits(cwd))) {
+        await gramCtx.reply("No commits yet.");
+        return;
+      }
+      const limit = Math.min(count, MAX_COUNT);
+      const entries = await readLog(cwd, limit);
+      const { text, keyboard } = buildPage(entries, limit, 0);
+      await gramCtx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/git_log failed",
+      );
+      await gramCtx.reply(`Failed to read the git log: ${gitError(err)}`);
+    }
+  };
+}
+
+/**
+ * Callback query handler for `/git_log` inline keyboard interactions.
+ * Recognizes data prefixed with `gl:` (`gl:p:<count>:<page>`, `gl:s|d|r:<hash>`,
+ * `gl:y|n:<userId>:<hash>`) and ignores all other callbacks.
+ */
+export function createGitLogCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("gl:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    const [, action, ...args] = data.split(":");
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+
+      if (action === "p") {
+        const count = Math.min(Number(args[0]) || DEFAULT_COUNT, MAX_COUNT);
+        const entries = await readLog(cwd, count);
+        const { text, keyboard } = buildPage(entries, count, Number(args[1]));
+        await gramCtx.editMessageText(text, {
+          parse_mode: "HTML",
+          reply_markup: keyboard,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (action === "s") {
+        const [hash] = args;
+        const { stdout } = await gitExec(
+          cwd,
+          ["show", "--stat", "--no-color", "--format=medium", hash],
+          LARGE_OUTPUT,
+        );
+        const output =
+          stdout.length > MAX_SHOW_CHARS
+            ? `${stdout.slice(0, MAX_SHOW_CHARS)}\n…`
+            : stdout.trimEnd();
+        const keyboard = new InlineKeyboard()
+          .text("📄 Patch", `gl:d:${hash}`)
+          .text("↩ Revert", `gl:r:${hash}`);
+        await gramCtx.answerCallbackQuery();
+        await gramCtx.reply(`<pre>${escapeHtml(output)}</pre>`, {
+          parse_mode: "HTML",
+          reply_markup: keyboard,
+        });
+        return;
+      }
+
+      if (action === "d") {
+        const [hash] = args;
+        // format-patch skips merges: they have no single patch to apply
+        const { stdout } = await gitExec(
+          cwd,
+          ["format-patch", "-1", "--stdout", hash],
+          LARGE_OUTPUT,
+        );
+        if (!stdout) {
+          await gramCtx.answerCallbackQuery({
+            text: "Merge commits have no patch.",
+          });
+          return;
+        }
+        await gramCtx.answerCallbackQuery();
+        await gramCtx.replyWithDocument(
+          new InputFile(
+            Buffer.from(stdout, "utf-8"),
+            `${hash.slice(0, 7)}.patch`,
+          ),
+        );
+        return;
+      }
+
+      if (action === "r") {
+        const [hash] = args;
+        if ((await parentCount(cwd, hash)) > 1) {
+          await gramCtx.answerCallbackQuery({
+            text: "Merge commits cannot be reverted from here.",
+          });
+          return;
+        }
+        const { stdout: subject } = await gitExec(cwd, [
+          "show",
+          "-s",
+          "--format=%s",
+          hash,
+        ]);
+        const userId = gramCtx.from?.id;
+        const keyboard = new InlineKeyboard()
+          .text("Yes, revert it", `gl:y:${userId}:${hash}`)
+          .text("Abort", `gl:n:${userId}:${hash}`);
+        await gramCtx.answerCallbackQuery();
+        await gramCtx.reply(
+          `Revert ${hash.slice(0, 7)} “${subject.trim()}”? This adds a new commit undoing its changes.`,
+          { reply_markup: keyboard },
+        );
+        return;
+      }
+
+      if (action === "y" || action === "n") {
+        const [targetUserId, hash] = args;
+        // Verify the tapping user matches the one who asked
+        if (String(gramCtx.from?.id) !== targetUserId) {
+          await gramCtx.answerCallbackQuery({
+            text: "This action is not for you.",
+          });
+          return;
+        }
+        if (action === "n") {
+          await gramCtx.editMessageText("Aborted.", {
+            reply_markup: undefined,
+          });
+          await gramCtx.answerCallbackQuery();
+          return;
+        }
+        if (isGitCwdBusy(ctx, gramCtx)) {
+          await gramCtx.answerCallbackQuery({
+            text: "Wait for the running message to finish (or /stop it).",
+          });
+          return;
+        }
+
+        try {
+          await gitExec(cwd, ["revert", "--no-edit", hash]);
+        } catch (err) {
+          await gitExec(cwd, ["revert", "--abort"]).catch(() => {});
+          // Drop git's hints about `revert --continue`: the revert was aborted
+          const reason = gitError(err)
+            .split("\n")
+            .filter((line) => !line.startsWith("hint:"))
+            .join("\n");
+          await gramCtx.editMessageText(
+            `Could not revert ${hash.slice(0, 7)}; nothing was changed.\n\n${reason}`,
+            { reply_markup: undefined },
+          );
+          await gramCtx.answerCallbackQuery();
+          return;
+        }
+        const { stdout } = await gitExec(cwd, ["log", "-1", "--format=%h %s"]);
+        logger.info({ commit: hash }, "Commit reverted");
+        await gramCtx.editMessageText(`Reverted: ${stdout.trim()}`, {
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "git_log callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
@@ -1,13 +1,15 @@
 import type { Context } from "grammy";
 import type { ProjectContext } from "../../../types.js";
 import { gitExec } from "./exec.js";
+import { resolveGitCwd } from "./worktree.js";
 
 export function createGitStatusHandler(ctx: ProjectContext) {
   return async (gramCtx: Context): Promise<void> => {
-    const { config, logger } = ctx;
+    const { logger } = ctx;
 
     try {
-      const { stdout } = await gitExec(config.cwd, ["status"]);
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const { stdout } = await gitExec(cwd, ["status"]);
       const output = stdout.trim() || "Nothing to report.";
       await gramCtx.reply(`\`\`\`\n${output}\n\`\`\``, {
         parse_mode: "Markdown",
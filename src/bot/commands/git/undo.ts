@@ -0,0 +1,210 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../../types.js";
+import {
+  type Checkpoint,
+  listCheckpoints,
+  restoreCheckpoint,
+} from "./checkpoint.js";
+import { isGitRepo } from "./exec.js";
+import { isGitCwdBusy, resolveGitCwd } from "./worktree.js";
+
+/** Checkpoints offered as buttons by /undo. */
+const MAX_LISTED = 10;
+const MAX_LABEL_CHARS = 40;
+
+function formatAgo(date: Date, now = Date.now()): string {
+  const minutes = Math.floor((now - date.getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function shortLabel(checkpoint: Checkpoint): string {
+  const { label } = checkpoint;
+  return label.length > MAX_LABEL_CHARS
+    ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…`
+    : label;
+}
+
+async function restore(
+  ctx: ProjectContext,
+  cwd: string,
+  checkpoint: Checkpoint,
+): Promise<string> {
+  const { config, logger } = ctx;
+  const changed = await restoreCheckpoint(
+    { cwd, dataDir: config.dataDir },
+    checkpoint,
+    config.commands.undo.keep,
+  );
+  logger.info({ checkpoint: checkpoint.id, changed }, "Checkpoint restored");
+  if (changed === 0) {
+    return "The project already matches that checkpoint.";
+  }
+  const files = changed === 1 ? "1 file" : `${changed} files`;
+  return (
+    `Restored the project to before “${checkpoint.label}” (${formatAgo(checkpoint.createdAt)}): ${files} changed.\n` +
+    "The state you left is the newest checkpoint: /undo 1 brings it back."
+  );
+}
+
+/** Reason /undo cannot run right now, if any. */
+async function unavailableReason(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  cwd: string,
+): Promise<string | undefined> {
+  if (!(await isGitRepo(cwd))) {
+    return "Checkpoints need a git repository. Run /git_init first.";
+  }
+  if (isGitCwdBusy(ctx, gramCtx)) {
+    return "Wait for the running messages to finish (or /stop them) before undoing.";
+  }
+  return undefined;
+}
+
+/**
+ * `/undo` — list the checkpoints taken before recent engine runs and restore
+ * the one picked. `/undo <n>` restores the state before the last n runs.
+ */
+export function createUndoHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { logger } = ctx;
+    const arg = (gramCtx.message?.text ?? "")
+      .replace(/^\/undo(@\w+)?\s*/, "")
+      .trim();
+
+    try {
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const reason = await unavailableReason(ctx, gramCtx, cwd);
+      if (reason) {
+        await gramCtx.reply(reason);
+        return;
+      }
+
+      const checkpoints = await listCheckpoints(cwd);
+      if (checkpoints.length === 0) {
+        await gramCtx.reply(
+          "No checkpoints yet: one is taken before each message the engine works on.",
+        );
+        return;
+      }
+
+      if (arg) {
+        const n = Number(arg);
+        if (!Number.isInteger(n) || n < 1) {
+          await gramCtx.reply(
+            "Usage: /undo to pick a checkpoint, or /undo <n> to go back n runs.",
+          );
+          return;
+        }
+        const checkpoint = checkpoints[n - 1];
+        if (!checkpoint) {
+          await gramCtx.reply(
+            `Only ${checkpoints.length} checkpoint(s) available.`,
+          );
+          return;
+        }
+        await gramCtx.reply(await restore(ctx, cwd, checkpoint));
+        return;
+      }
+
+      const listed = checkpoints.slice(0, MAX_LISTED);
+      const keyboard = new InlineKeyboard();
+      listed.forEach((checkpoint, i) => {
+        keyboard
+          .text(
+            `${i + 1} · ${formatAgo(checkpoint.createdAt)} · ${shortLabel(checkpoint)}`,
+            `un:pick:${checkpoint.id}`,
+          )
+          .row();
+      });
+      await gramCtx.reply(
+        "Restore the project to how it was before one of these runs (newest first):",
+        { reply_markup: keyboard },
+      );
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/undo failed",
+      );
+      await gramCtx.reply(
+        `Undo failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Callback query handler for `/undo` inline keyboard interactions.
+ * Recognizes data prefixed with `un:` (`un:pick:<id>`, `un:ok:<id>`,
+ * `un:cancel`) and ignores all other callbacks.
+ */
+export function createUndoCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("un:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    const [, action, id] = data.split(":");
+
+    try {
+      if (action === "cancel") {
+        await gramCtx.editMessageText("Cancelled.", {
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      const cwd = await resolveGitCwd(ctx, gramCtx);
+      const checkpoint = (await listCheckpoints(cwd)).find((c) => c.id === id);
+      if (!checkpoint) {
+        await gramCtx.answerCallbackQuery({
+          text: "This checkpoint is gone. Send /undo again.",
+        });
+        return;
+      }
+
+      if (action === "pick") {
+        const keyboard = new InlineKeyboard()
+          .text("Confirm", `un:ok:${checkpoint.id}`)
+          .text("Cancel", "un:cancel");
+        await gramCtx.editMessageText(
+          `Restore the project to before “${checkpoint.label}” (${formatAgo(checkpoint.createdAt)})? Later changes are saved as a checkpoint first.`,
+          { reply_markup: keyboard },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (action === "ok") {
+        const reason = await unavailableReason(ctx, gramCtx, cwd);
+        if (reason) {
+          await gramCtx.answerCallbackQuery({ text: reason });
+          return;
+        }
+        await gramCtx.editMessageText(await restore(ctx, cwd, checkpoint), {
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "undo callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
@@ -0,0 +1,330 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ResolvedProjectConfig } from "../../../config.js";
+import type { ProjectContext } from "../../../types.js";
+import { isProjectRunning, isRunning } from "../../handlers/inflight.js";
+import { resolveWorkspace, type Workspace } from "../../handlers/workspace.js";
+import { gitExec, isGitRepo } from "./exec.js";
+
+/**
+ * Worktree per workspace (commands.git.worktrees): each private chat or forum
+ * topic gets its own `git worktree` of the project, on branch
+ * `hal/<workspace key>`, at `{workspace dir}/worktree`. The engine runs there
+ * and the git commands act on it, so parallel conversations do not edit the
+ * same files. `/git_worktree` merges the branch back and removes the worktree.
+ */
+
+function worktreesEnabled(config: ResolvedProjectConfig): boolean {
+  return config.commands.git.enabled && config.commands.git.worktrees;
+}
+
+function worktreeBranch(workspace: Workspace): string {
+  return `hal/${workspace.key}`;
+}
+
+function worktreeDir(workspace: Workspace): string {
+  return join(workspace.dir, "worktree");
+}
+
+/** Create the workspace's worktree from the project's HEAD, if missing. */
+async function ensureWorktree(
+  cwd: string,
+  workspace: Workspace,
+): Promise<string> {
+  const dir = worktreeDir(workspace);
+  if (existsSync(join(dir, ".git"))) return dir;
+
+  const branch = worktreeBranch(workspace);
+  // Drop a registration left by a worktree deleted by hand
+  await gitExec(cwd, ["worktree", "prune"]);
+  const exists = await gitExec(cwd, [
+    "rev-parse",
+    "--verify",
+    "-q",
+    `refs/heads/${branch}`,
+  ])
+    .then(() => true)
+    .catch(() => false);
+  await gitExec(
+    cwd,
+    exists
+      ? ["worktree", "add", dir, branch]
+      : ["worktree", "add", "-b", branch, dir],
+  );
+  return dir;
+}
+
+/**
+ * Directory the engine and the git commands work in for this update: the
+ * workspace's worktree in worktree mode (created on first use), otherwise
+ * the project cwd. The project cwd too when it is not a git repository or
+ * has no commit to branch from yet.
+ */
+export async function resolveGitCwd(
+  ctx: ProjectContext,
+  gramCtx: Context,
+): Promise<string> {
+  const { config } = ctx;
+  const workspace = resolveWorkspace(ctx, gramCtx);
+  if (!worktreesEnabled(config) || !workspace) return config.cwd;
+  if (!(await isGitRepo(config.cwd))) return config.cwd;
+  const hasHead = await gitExec(config.cwd, [
+    "rev-parse",
+    "--verify",
+    "-q",
+    "HEAD",
+  ])
+    .then(() => true)
+    .catch(() => false);
+  return hasHead ? ensureWorktree(config.cwd, workspace) : config.cwd;
+}
+
+/**
+ * True while an engine run may be editing the files git would touch: any run
+ * of the project, or only the workspace's own run in worktree mode.
+ */
+export function isGitCwdBusy(ctx: ProjectContext, gramCtx: Context): boolean {
+  const { config } = ctx;
+  const workspace = resolveWorkspace(ctx, gramCtx);
+  return worktreesEnabled(config) && workspace
+    ? isRunning(config.slug, workspace.key)
+    : isProjectRunning(config.slug);
+}
+
+/** Branch checked out in `cwd` (undefined when detached). */
+async function currentBranch(cwd: string): Promise<string | undefined> {
+  const { stdout } = await gitExec(cwd, ["branch", "--show-current"]);
+  return stdout.trim() || undefined;
+}
+
+interface WorktreeStatus {
+  dir: string;
+  branch: string;
+  /** Branch checked out in the project cwd: where merges go. */
+  target: string | undefined;
+  ahead: number;
+  uncommitted: number;
+}
+
+async function worktreeStatus(
+  ctx: ProjectContext,
+  workspace: Workspace,
+): Promise<WorktreeStatus | undefined> {
+  const { cwd } = ctx.config;
+  const dir = worktreeDir(workspace);
+  if (!existsSync(join(dir, ".git"))) return undefined;
+
+  // The user may have switched the worktree to another branch (/git_branch)
+  const branch = (await currentBranch(dir)) ?? worktreeBranch(workspace);
+  const target = await currentBranch(cwd);
+  const [{ stdout: ahead }, { stdout: status }] = await Promise.all([
+    gitExec(cwd, ["rev-list", "--count", `${target ?? "HEAD"}..${branch}`]),
+    gitExec(dir, ["status", "--porcelain"]),
+  ]);
+  return {
+    dir,
+    branch,
+    target,
+    ahead: Number(ahead.trim()),
+    uncommitted: status.split("\n").filter(Boolean).length,
+  };
+}
+
+function statusText(status: WorktreeStatus): string {
+  const lines = [
+    `Worktree: ${status.dir}`,
+    `Branch: ${status.branch}`,
+    `Commits not in ${status.target ?? "HEAD"}: ${status.ahead}`,
+  ];
+  if (status.uncommitted > 0) {
+    lines.push(
+      `Uncommitted changes: ${status.uncommitted} file(s), not merged until committed (/git_commit).`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function statusKeyboard(status: WorktreeStatus): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  if (status.ahead > 0 && status.target) {
+    keyboard.text(`Merge into ${status.target}`, "wt:merge").row();
+  }
+  return keyboard.text("Remove worktree", "wt:rm");
+}
+
+/**
+ * `/git_worktree` — show the workspace's worktree (branch, commits to merge,
+ * uncommitted changes) with buttons to merge it and to remove it.
+ */
+export function createGitWorktreeHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const { config, logger } = ctx;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!worktreesEnabled(config) || !workspace) {
+      await gramCtx.reply(
+        "Worktree mode is off: every conversation works in the project directory (commands.git.worktrees).",
+      );
+      return;
+    }
+
+    try {
+      const status = await worktreeStatus(ctx, workspace);
+      if (!status) {
+        await gramCtx.reply(
+          "No worktree yet: it is created with your next message to the engine.",
+        );
+        return;
+      }
+      await gramCtx.reply(statusText(status), {
+        reply_markup: statusKeyboard(status),
+      });
+    } catch (err) {
+      logger.error(
+        { error: err instanceof Error ? err.message : String(err) },
+        "/git_worktree failed",
+      );
+      await gramCtx.reply(
+        `Failed to read the worktree: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Callback query handler for `/git_worktree` inline keyboard interactions.
+ * Recognizes data prefixed with `wt:` (`wt:merge`, `wt:rm`, `wt:rmok`,
+ * `wt:cancel`) and ignores all other callbacks.
+ */
+export function createGitWorktreeCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("wt:")) {
+      return next();
+    }
+
+    const { config, logger } = ctx;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!worktreesEnabled(config) || !workspace) {
+      await gramCtx.answerCallbackQuery({ text: "Worktree mode is off." });
+      return;
+    }
+
+    try {
+      if (data === "wt:cancel") {
+        await gramCtx.editMessageText("Cancelled.", {
+          reply_markup: undefined,
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      const status = await worktreeStatus(ctx, workspace);
+      if (!status) {
+        await gramCtx.answerCallbackQuery({ text: "No worktree any more." });
+        return;
+      }
+      if (isGitCwdBusy(ctx, gramCtx)) {
+        await gramCtx.answerCallbackQuery({
+          text: "Wait for the running message to finish (or /stop it).",
+        });
+        return;
+      }
+
+      if (data === "wt:merge") {
+        if (!status.target || status.ahead === 0) {
+          await gramCtx.answerCallbackQuery({ text: "Nothing to merge." });
+          return;
+        }
+        try {
+          await gitExec(config.cwd, [
+            "merge",
+            "--no-ff",
+            "--no-edit",
+            status.branch,
+          ]);
+        } catch (err) {
+          await gitExec(config.cwd, ["merge", "--abort"]).catch(() => {});
+          const reason =
+            (err as { stderr?: string }).stderr?.trim() ||
+            (err instanceof Error ? err.message : String(err));
+          await gramCtx.editMessageText(
+            `Could not merge ${status.branch} into ${status.target}; nothing was changed.\n\n${reason}`,
+            { reply_markup: undefined },
+          );
+          await gramCtx.answerCallbackQuery();
+          return;
+        }
+        logger.info(
+          { branch: status.branch, target: status.target },
+          "Worktree merged",
+        );
+        const merged = await worktreeStatus(ctx, workspace);
+        await gramCtx.editMessageText(
+          `Merged ${status.branch} into ${status.target}.${merged ? `\n\n${statusText(merged)}` : ""}`,
+          { reply_markup: merged ? statusKeyboard(merged) : undefined },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (data === "wt:rm") {
+        const keyboard = new InlineKeyboard()
+          .text("Confirm", "wt:rmok")
+          .text("Cancel", "wt:cancel");
+        const warnings = [
+          status.uncommitted > 0 &&
+            `${status.uncommitted} uncommitted file(s) will be lost.`,
+          status.ahead > 0 &&
+            `${status.ahead} commit(s) not merged into ${status.target ?? "HEAD"}: the branch is kept.`,
+        ].filter(Boolean);
+        await gramCtx.editMessageText(
+          [`Remove your worktree (${status.branch})?`, ...warnings].join("\n"),
+          { reply_markup: keyboard },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (data === "wt:rmok") {
+        await gitExec(config.cwd, [
+          "worktree",
+          "remove",
+          "--force",
+          status.dir,
+        ]);
+        // -d refuses unmerged branches: their commits stay reachable
+        const branchDeleted = await gitExec(config.cwd, [
+          "branch",
+          "-d",
+          status.branch,
+        ])
+          .then(() => true)
+          .catch(() => false);
+        logger.info(
+          { branch: status.branch, branchDeleted },
+          "Worktree removed",
+        );
+        await gramCtx.editMessageText(
+          branchDeleted
+            ? `Worktree and branch ${status.branch} removed. Your next message starts a fresh one.`
+            : `Worktree removed. Branch ${status.branch} is kept: it has commits not merged yet, and your next message continues from it.`,
+          { reply_markup: undefined },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "git_worktree callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
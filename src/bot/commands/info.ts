@@ -2,6 +2,8 @@ import type { Context } from "grammy";
 import { resolveContext } from "../../context/resolver.js";
 import { getDefaultEngineModel } from "../../default-models.js";
 import type { ProjectContext } from "../../types.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+import { modeBadge, resolveMode } from "./mode.js";
 
 const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
 const CONTEXT_CHUNK_LIMIT = 3500;
@@ -104,6 +106,12 @@ export function createInfoHandler(projectCtx: ProjectContext) {
       );
     }
 
+    const workspace = resolveWorkspace(projectCtx, gramCtx);
+    const mode = workspace
+      ? await resolveMode(projectCtx, workspace.dir)
+      : config.engineMode;
+    summaryLines.push(`*Mode:* ${modeBadge(mode)}`);
+
     await gramCtx.reply(summaryLines.join("\n"), { parse_mode: "Markdown" });
 
     if (!infoCfg.context) {
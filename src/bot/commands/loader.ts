@@ -24,8 +24,17 @@ export interface CommandEnabledFlags {
   help: boolean;
   reset: boolean;
   clean: boolean;
+  stop: boolean;
+  queue: boolean;
+  usage: boolean;
+  engines: boolean;
+  sessions: boolean;
+  export: boolean;
+  mode: boolean;
+  access: boolean;
   info: boolean;
   git: boolean;
+  undo: boolean;
   model: boolean;
   engine: boolean;
   npm: boolean;
@@ -319,12 +328,90 @@ export const BUILTIN_COMMANDS: CommandEntry[] = [
     filePath: "",
     source: "builtin",
   },
+  {
+    command: "stop",
+    description: "Stop the running engine call",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "queue",
+    description: "Show or drop your queued messages",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "usage",
+    description: "Show token usage and cost",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "engines",
+    description: "Check the health of every engine",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "sessions",
+    description: "List and switch your sessions",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "session_new",
+    description: "Start a new named session",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "session_rename",
+    description: "Rename a session",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "session_delete",
+    description: "Delete a session",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "export",
+    description: "Export this session's transcript",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "mode",
+    description: "Switch between plan, read-only and full mode",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "access",
+    description: "List allowed users and access requests",
+    filePath: "",
+    source: "builtin",
+  },
+  {
+    command: "access_revoke",
+    description: "Revoke a user's access",
+    filePath: "",
+    source: "builtin",
+  },
   {
     command: "info",
     description: "Show project runtime info",
     filePath: "",
     source: "builtin",
   },
+  {
+    command: "undo",
+    description: "Restore the project to before a recent run",
+    filePath: "",
+    source: "builtin",
+  },
   {
     command: "model",
     description: "Switch the AI model",
@@ -358,6 +445,18 @@ export const GIT_COMMANDS: CommandEntry[] = [
     filePath: "",
     source: "git",
   },
+  {
+    command: "git_diff",
+    description: "Review changes file by file",
+    filePath: "",
+    source: "git",
+  },
+  {
+    command: "git_log",
+    description: "Browse commit history",
+    filePath: "",
+    source: "git",
+  },
   {
     command: "git_commit",
     description: "Commit changes",
@@ -370,6 +469,18 @@ export const GIT_COMMANDS: CommandEntry[] = [
     filePath: "",
     source: "git",
   },
+  {
+    command: "git_branch",
+    description: "List, create or switch branches",
+    filePath: "",
+    source: "git",
+  },
+  {
+    command: "git_worktree",
+    description: "Merge or remove your worktree",
+    filePath: "",
+    source: "git",
+  },
 ];
 
 const BUILTIN_ENABLED_MAP: Record<string, keyof CommandEnabledFlags> = {
@@ -377,7 +488,20 @@ const BUILTIN_ENABLED_MAP: Record<string, keyof CommandEnabledFlags> = {
   help: "help",
   reset: "reset",
   clean: "clean",
+  stop: "stop",
+  queue: "queue",
+  usage: "usage",
+  engines: "engines",
+  sessions: "sessions",
+  session_new: "sessions",
+  session_rename: "sessions",
+  session_delete: "sessions",
+  export: "export",
+  mode: "mode",
+  access: "access",
+  access_revoke: "access",
   info: "info",
+  undo: "undo",
   model: "model",
   engine: "engine",
   npm: "npm",
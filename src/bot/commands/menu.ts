@@ -0,0 +1,60 @@
+import type { Api } from "grammy";
+import type pino from "pino";
+import type { ResolvedProjectConfig } from "../../config.js";
+import { resolveRole, roleAllows } from "../middleware/roles.js";
+import type { CommandEntry } from "./loader.js";
+
+function toBotCommands(
+  commands: CommandEntry[],
+  access: ResolvedProjectConfig["access"],
+  role: string | undefined,
+) {
+  return commands
+    .filter((c) => roleAllows(access, role, c.command))
+    .map((c) => ({ command: c.command, description: c.description }));
+}
+
+/**
+ * Publish the Telegram command menu.
+ *
+ * Without roles everybody gets the same menu. With roles the default menu
+ * shows what `access.defaultRole` may run, and every user listed in a role
+ * gets a private-chat menu (chat scope) with that role's commands only.
+ * Users that never opened a chat with the bot cannot be scoped; they are
+ * skipped until the next publish.
+ */
+export async function publishCommandMenu(
+  api: Api,
+  commands: CommandEntry[],
+  access: ResolvedProjectConfig["access"] | undefined,
+  logger: pino.Logger,
+): Promise<void> {
+  if (!access?.roles) {
+    await api.setMyCommands(
+      commands.map((c) => ({ command: c.command, description: c.description })),
+    );
+    return;
+  }
+  await api.setMyCommands(toBotCommands(commands, access, access.defaultRole));
+
+  const userIds = new Set(
+    Object.values(access.roles).flatMap((role) => role.users),
+  );
+  for (const userId of userIds) {
+    const role = resolveRole(access, userId);
+    try {
+      await api.setMyCommands(toBotCommands(commands, access, role), {
+        scope: { type: "chat", chat_id: userId },
+      });
+    } catch (err) {
+      logger.debug(
+        {
+          userId,
+          role,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        "Could not set role command menu",
+      );
+    }
+  }
+}
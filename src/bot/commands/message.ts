@@ -30,8 +30,17 @@ async function buildHalCommands(ctx: ProjectContext): Promise<string> {
     help: config.commands.help.enabled,
     reset: config.commands.reset.enabled,
     clean: config.commands.clean.enabled,
+    stop: config.commands.stop.enabled,
+    queue: config.commands.queue.enabled,
+    usage: config.commands.usage.enabled,
+    engines: config.commands.engines.enabled,
+    sessions: config.commands.sessions.enabled,
+    export: config.commands.export.enabled,
+    mode: config.commands.mode.enabled,
+    access: config.access.allowRequests,
     info: config.commands.info.enabled,
     git: config.commands.git.enabled,
+    undo: config.commands.undo.enabled,
     model: config.commands.model.enabled,
     engine: config.commands.engine.enabled,
     npm: config.commands.npm.enabled,
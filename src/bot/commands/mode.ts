@@ -0,0 +1,132 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { ENGINE_MODES, type EngineMode } from "../../engine/types.js";
+import type { ProjectContext } from "../../types.js";
+import { readUserSettings, updateUserSettings } from "../../user/settings.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+
+const MODE_BADGES: Record<EngineMode, string> = {
+  plan: "🧭 plan",
+  readonly: "👀 readonly",
+  full: "✏️ full",
+};
+
+const MODE_DESCRIPTIONS: Record<EngineMode, string> = {
+  plan: "investigate and propose a plan, change nothing",
+  readonly: "read and inspect the project, no edits",
+  full: "read and edit the project",
+};
+
+/** "🧭 plan" */
+export function modeBadge(mode: EngineMode): string {
+  return MODE_BADGES[mode];
+}
+
+/** Mode of the workspace: its /mode choice, else `engine.mode`. */
+export async function resolveMode(
+  ctx: ProjectContext,
+  userDir: string,
+): Promise<EngineMode> {
+  return (await readUserSettings(userDir)).mode ?? ctx.config.engineMode;
+}
+
+function isEngineMode(value: string): value is EngineMode {
+  return (ENGINE_MODES as readonly string[]).includes(value);
+}
+
+/** Confirmation text, with a warning when the engine cannot enforce the mode. */
+function switchedText(ctx: ProjectContext, mode: EngineMode): string {
+  const lines = [`Mode set to ${modeBadge(mode)}: ${MODE_DESCRIPTIONS[mode]}.`];
+  if (mode !== "full" && !ctx.engine.supportsModes) {
+    lines.push(
+      "",
+      `⚠️ ${ctx.engine.name} has no permission flags for this mode: it is only asked not to change anything.`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function modeKeyboard(current: EngineMode): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const mode of ENGINE_MODES) {
+    keyboard.text(
+      mode === current ? `▸ ${MODE_BADGES[mode]}` : MODE_BADGES[mode],
+      `mo:${mode}`,
+    );
+  }
+  return keyboard;
+}
+
+/**
+ * Returns a handler for the /mode command.
+ * `/mode` shows the current mode with a button per mode; `/mode <mode>`
+ * switches directly. The choice is kept per workspace until /reset.
+ */
+export function createModeHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!workspace) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+
+    const match = gramCtx.message?.text?.match(
+      /^\/mode(?:@\w+)?(?:\s+(\S+))?\s*$/i,
+    );
+    const arg = match?.[1]?.toLowerCase();
+    if (arg !== undefined) {
+      if (!isEngineMode(arg)) {
+        await gramCtx.reply(`Usage: /mode [${ENGINE_MODES.join("|")}]`);
+        return;
+      }
+      await updateUserSettings(workspace.dir, { mode: arg });
+      ctx.logger.info(
+        { workspace: workspace.key, mode: arg },
+        "Engine mode switched",
+      );
+      await gramCtx.reply(switchedText(ctx, arg));
+      return;
+    }
+
+    const current = await resolveMode(ctx, workspace.dir);
+    const lines = [
+      `Mode: ${modeBadge(current)}`,
+      "",
+      ...ENGINE_MODES.map((m) => `• ${m} — ${MODE_DESCRIPTIONS[m]}`),
+    ];
+    await gramCtx.reply(lines.join("\n"), {
+      reply_markup: modeKeyboard(current),
+    });
+  };
+}
+
+/**
+ * Callback query handler for the /mode buttons. Recognizes data prefixed
+ * with `mo:` (followed by the mode) and ignores all other callbacks.
+ */
+export function createModeCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("mo:")) {
+      return next();
+    }
+
+    const mode = data.slice("mo:".length);
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!workspace || !isEngineMode(mode)) {
+      await gramCtx.answerCallbackQuery({ text: "Invalid selection" });
+      return;
+    }
+
+    await updateUserSettings(workspace.dir, { mode });
+    ctx.logger.info({ workspace: workspace.key, mode }, "Engine mode switched");
+    await gramCtx.answerCallbackQuery({ text: `Mode: ${mode}` });
+    try {
+      await gramCtx.editMessageText(switchedText(ctx, mode), {
+        reply_markup: undefined,
+      });
+    } catch {
+      // Message may already be gone
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import { dropQueued, getQueue, type QueuedTurn } from "../handlers/queue.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+
+function renderQueue(
+  active: QueuedTurn | null,
+  pending: QueuedTurn[],
+): { text: string; keyboard?: InlineKeyboard } {
+  if (!active && pending.length === 0) {
+    return { text: "Your queue is empty." };
+  }
+
+  const lines: string[] = [];
+  if (active) {
+    lines.push(`#1 ▶️ ${active.label}`);
+  }
+  pending.forEach((turn, i) => {
+    lines.push(`#${i + 2} ⏳ ${turn.label}`);
+  });
+
+  if (pending.length === 0) {
+    return { text: lines.join("\n") };
+  }
+
+  const keyboard = new InlineKeyboard();
+  pending.forEach((turn, i) => {
+    keyboard.text(`Drop #${i + 2}`, `q:drop:${turn.id}`).row();
+  });
+  keyboard.text("Drop all", "q:clear");
+  return { text: lines.join("\n"), keyboard };
+}
+
+async function markDropped(gramCtx: Context, dropped: QueuedTurn[]) {
+  for (const turn of dropped) {
+    if (turn.statusMsgId === undefined) continue;
+    try {
+      await gramCtx.api.editMessageText(
+        turn.chatId,
+        turn.statusMsgId,
+        "_Dropped from queue._",
+        { parse_mode: "Markdown" },
+      );
+    } catch {
+      // Message may already be gone
+    }
+  }
+}
+
+/**
+ * Returns a handler for the /queue command.
+ * Lists the running message and the ones waiting behind it, with a button
+ * to drop each waiting message (or all of them).
+ */
+export function createQueueHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!workspace) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+
+    const { active, pending } = getQueue(ctx.config.slug, workspace.key);
+    const { text, keyboard } = renderQueue(active, pending);
+    await gramCtx.reply(text, { reply_markup: keyboard });
+  };
+}
+
+/**
+ * Callback query handler for queue buttons.
+ * Recognizes data prefixed with `q:` and ignores all other callbacks.
+ *
+ * - `q:drop:<turnId>` — drop one waiting message (from the /queue list)
+ * - `q:drop:<workspaceKey>:<turnId>` — Drop button on a "Queued" status message
+ * - `q:clear` — drop every waiting message
+ */
+export function createQueueCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("q:")) {
+      return next();
+    }
+
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !workspace) {
+      await gramCtx.answerCallbackQuery({ text: "Could not identify user." });
+      return;
+    }
+
+    const parts = data.split(":");
+    let dropped: QueuedTurn[];
+    let fromList = true;
+
+    if (parts[1] === "clear") {
+      dropped = dropQueued(ctx, workspace.key);
+    } else if (parts[1] === "drop") {
+      if (parts.length === 4) {
+        fromList = false;
+        if (parts[2] !== workspace.key) {
+          await gramCtx.answerCallbackQuery({
+            text: "This action is not for you.",
+          });
+          return;
+        }
+      }
+      const turnId = Number(parts[parts.length - 1]);
+      dropped = dropQueued(ctx, workspace.key, turnId);
+    } else {
+      await gramCtx.answerCallbackQuery();
+      return;
+    }
+
+    ctx.logger.info(
+      { userId, dropped: dropped.map((t) => t.id) },
+      "Queued messages dropped",
+    );
+    await gramCtx.answerCallbackQuery({
+      text:
+        dropped.length > 0
+          ? `Dropped ${dropped.length} message(s).`
+          : "Already started or gone.",
+    });
+    await markDropped(gramCtx, dropped);
+
+    if (fromList) {
+      const { active, pending } = getQueue(ctx.config.slug, workspace.key);
+      const { text, keyboard } = renderQueue(active, pending);
+      try {
+        await gramCtx.editMessageText(text, { reply_markup: keyboard });
+      } catch {
+        // Ignore edit errors (e.g. text unchanged)
+      }
+    }
+  };
+}
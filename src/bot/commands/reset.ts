@@ -1,8 +1,8 @@
-import { join } from "node:path";
 import type { Api, Context, NextFunction } from "grammy";
 import { InlineKeyboard } from "grammy";
 import type { ProjectContext } from "../../types.js";
 import { clearUserData } from "../../user/setup.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
 import { invalidatePrompt, resolvePrompt, trackPrompt } from "./resetPrompt.js";
 import { resetSession } from "./session.js";
 
@@ -74,8 +74,8 @@ export function createResetCallbackHandler(ctx: ProjectContext) {
       resolvePrompt(targetUserId);
 
       if (action === "y") {
-        const userDir = join(config.dataDir, String(targetUserId));
-        await clearUserData(userDir);
+        const workspace = resolveWorkspace(ctx, gramCtx);
+        if (workspace) await clearUserData(workspace.dir);
 
         // Reset session if configured
         if (config.commands.reset.sessionReset) {
@@ -1,14 +1,34 @@
-import { join } from "node:path";
 import type { Context } from "grammy";
 import { createAgent } from "../../agent/index.js";
 import { sendChunkedResponse } from "../../telegram/chunker.js";
 import type { ProjectContext } from "../../types.js";
-import { clearSessionData } from "../../user/setup.js";
+import {
+  BudgetExceededError,
+  checkBudget,
+  recordUsage,
+} from "../../usage/budget.js";
+import {
+  clearSessionData,
+  getSessionId,
+  saveCarryOver,
+} from "../../user/setup.js";
+import { releaseRun, trackRun } from "../handlers/inflight.js";
+import { enqueueWorkspaceTask } from "../handlers/queue.js";
+import { shouldLoadSessionFromUserDir } from "../handlers/session.js";
+import { stopKeyboard } from "../handlers/turn.js";
+import { resolveWorkspace, type Workspace } from "../handlers/workspace.js";
+import { resolveGitCwd } from "./git/worktree.js";
 import { resolveCommandMessage } from "./message.js";
 
 const DEFAULT_CLEAN_TEMPLATE =
   "Session reset. Your next message starts a new conversation.";
 
+const CARRY_OVER_PROMPT =
+  "We are about to start a new session and this conversation will be lost. " +
+  "Write a concise handoff summary for whoever continues the work: the goal, " +
+  "decisions made, files touched, current state and open next steps. " +
+  "Reply with the summary only.";
+
 /**
  * Shared session-reset logic used by /clean and /start (when configured).
  *
@@ -26,13 +46,14 @@ export async function resetSession(
 ): Promise<void> {
   const { config, logger } = ctx;
   const userId = gramCtx.from?.id;
+  const workspace = resolveWorkspace(ctx, gramCtx);
 
-  if (!userId) {
+  if (!userId || !workspace) {
     if (!options?.silent) await gramCtx.reply("Could not identify user.");
     return;
   }
 
-  const userDir = join(config.dataDir, String(userId));
+  const userDir = workspace.dir;
 
   await clearSessionData(userDir);
   logger.info({ userId }, "Session data cleared");
@@ -52,7 +73,7 @@ export async function resetSession(
     });
 
     try {
-      const agent = createAgent(ctx);
+      const agent = createAgent(ctx, gramCtx);
       const result = await agent.call(config.engineSessionMsg, {
         continueSession: false,
       });
@@ -76,32 +97,160 @@ export async function resetSession(
         "Session renewal engine call failed",
       );
       if (!options?.silent)
-        await gramCtx.reply("Failed to start new session. Please try again.");
+        await gramCtx.reply(
+          err instanceof BudgetExceededError
+            ? err.message
+            : "Failed to start new session. Please try again.",
+        );
     }
   } else if (!options?.silent) {
     await gramCtx.reply("New session started.");
   }
 }
 
+/**
+ * Ask the engine to summarise the user's current session (commands.clean.carryOver).
+ * Runs like a message would (queued by the caller): read-only in the
+ * workspace's cwd, stoppable with /stop, checked against the budget and
+ * recorded in the usage log.
+ * Returns undefined when there is no session to summarise or the call fails.
+ */
+async function summariseSession(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  workspace: Workspace,
+): Promise<string | undefined> {
+  const { config, logger } = ctx;
+  const userDir = workspace.dir;
+  const loadsSession = shouldLoadSessionFromUserDir(
+    config.engineSession,
+    ctx.engine,
+  );
+  const sessionId = loadsSession ? await getSessionId(userDir) : null;
+  if (loadsSession && !sessionId) return undefined;
+
+  const refusal = await checkBudget(ctx, gramCtx);
+  if (refusal) {
+    await gramCtx.reply(refusal);
+    return undefined;
+  }
+
+  const statusMsg = await gramCtx.reply("_Summarising the session..._", {
+    parse_mode: "Markdown",
+    reply_markup: config.commands.stop.enabled
+      ? stopKeyboard(workspace.key)
+      : undefined,
+  });
+  const runCwd = await resolveGitCwd(ctx, gramCtx);
+  const runCtx: ProjectContext =
+    runCwd === config.cwd
+      ? ctx
+      : { ...ctx, config: { ...config, cwd: runCwd } };
+  const controller = trackRun(config.slug, workspace.key);
+  try {
+    const result = await ctx.engine.execute(
+      {
+        prompt: CARRY_OVER_PROMPT,
+        gramCtx,
+        userDir,
+        sessionId,
+        signal: controller.signal,
+        mode: "readonly",
+      },
+      runCtx,
+    );
+    await recordUsage(ctx, gramCtx.from?.id ?? 0, result);
+    if (!result.success) {
+      logger.warn({ error: result.error }, "Carry-over summary failed");
+      return undefined;
+    }
+    return ctx.engine.parse(result).text.trim() || undefined;
+  } catch (err) {
+    logger.warn({ err }, "Carry-over summary failed");
+    return undefined;
+  } finally {
+    releaseRun(config.slug, workspace.key, controller);
+    try {
+      await gramCtx.api.deleteMessage(gramCtx.chat!.id, statusMsg.message_id);
+    } catch {
+      // Ignore delete errors
+    }
+  }
+}
+
 /**
  * Returns a handler for the /clean command.
  * Resets the session, then sends a customizable confirmation message.
+ * With commands.clean.carryOver, the outgoing session is summarised first
+ * and the summary is prepended to the first prompt of the new one.
  */
 export function createCleanHandler(ctx: ProjectContext) {
   return async (gramCtx: Context): Promise<void> => {
-    try {
-      await resetSession(ctx, gramCtx, { silent: true });
-
-      const template =
-        ctx.config.commands.clean.message ?? DEFAULT_CLEAN_TEMPLATE;
-      const message = await resolveCommandMessage(template, ctx, gramCtx);
-      await gramCtx.reply(message, { parse_mode: "Markdown" });
-    } catch (error) {
-      ctx.logger.error(
-        { error: error instanceof Error ? error.message : String(error) },
-        "Session renewal failed",
-      );
-      await gramCtx.reply("Failed to reset session. Please try again.");
+    const { config, logger } = ctx;
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    const carriesOver =
+      config.commands.clean.carryOver &&
+      config.engineSession !== false &&
+      !!workspace;
+
+    const clean = async () => {
+      try {
+        const carryOver =
+          carriesOver && workspace
+            ? await summariseSession(ctx, gramCtx, workspace)
+            : undefined;
+
+        await resetSession(ctx, gramCtx, { silent: true });
+
+        if (carryOver && workspace) {
+          await saveCarryOver(workspace.dir, carryOver);
+          logger.info(
+            { userId, chars: carryOver.length },
+            "Carry-over summary saved",
+          );
+        }
+
+        const template =
+          config.commands.clean.message ?? DEFAULT_CLEAN_TEMPLATE;
+        const message = await resolveCommandMessage(template, ctx, gramCtx);
+        await gramCtx.reply(message, { parse_mode: "Markdown" });
+        if (carriesOver) {
+          await gramCtx.reply(
+            carryOver
+              ? "_A summary of the previous session will be passed along with your next message._"
+              : "_Nothing was carried over from the previous session._",
+            { parse_mode: "Markdown" },
+          );
+        }
+      } catch (error) {
+        ctx.logger.error(
+          { error: error instanceof Error ? error.message : String(error) },
+          "Session renewal failed",
+        );
+        await gramCtx
+          .reply("Failed to reset session. Please try again.")
+          .catch(() => {});
+      }
+    };
+
+    if (!carriesOver) {
+      await clean();
+      return;
     }
+    // The summary is an engine turn: it waits for the running message and
+    // holds the workspace queue until the reset is done, so messages sent
+    // meanwhile run in the new session.
+    await enqueueWorkspaceTask(ctx, gramCtx, {
+      label: "/clean",
+      start: async (statusMsgId) => {
+        if (statusMsgId !== undefined) {
+          await gramCtx.api
+            .deleteMessage(gramCtx.chat!.id, statusMsgId)
+            .catch(() => {});
+        }
+        await clean();
+      },
+    });
   };
 }
@@ -0,0 +1,254 @@
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import {
+  createNamedSession,
+  deleteNamedSession,
+  listNamedSessions,
+  NamedSessionError,
+  renameNamedSession,
+  switchNamedSession,
+} from "../../user/sessions.js";
+import type { NamedSession } from "../../user/setup.js";
+import { isRunning } from "../handlers/inflight.js";
+import { getQueue } from "../handlers/queue.js";
+import { resolveEffectiveMode } from "../handlers/session.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+
+/**
+ * Named sessions need an engine that resumes a conversation by id.
+ * Returns the reason they are unavailable, or undefined.
+ */
+function unavailableReason(ctx: ProjectContext): string | undefined {
+  const mode = resolveEffectiveMode(ctx.config.engineSession, ctx.engine);
+  if (mode === false) {
+    return "Sessions are disabled for this project (engine.session: false).";
+  }
+  if (mode === "shared") {
+    return (
+      `${ctx.engine.name} continues the project's latest conversation and cannot resume one by id, ` +
+      "so named sessions are not available. Use /clean to start over."
+    );
+  }
+  return undefined;
+}
+
+function formatAgo(iso: string | undefined, now = Date.now()): string {
+  if (!iso) return "never used";
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function describe(session: NamedSession, active: boolean): string {
+  const head = `${active ? "▶️" : "•"} ${session.name} — ${formatAgo(session.lastMessageAt)}`;
+  return session.firstPrompt ? `${head}\n   “${session.firstPrompt}”` : head;
+}
+
+async function renderSessions(
+  userDir: string,
+): Promise<{ text: string; keyboard?: InlineKeyboard }> {
+  const { active, others } = await listNamedSessions(userDir);
+  const lines = [
+    describe(active, true),
+    ...others.map((s) => describe(s, false)),
+  ];
+  if (others.length === 0) {
+    lines.push("", "Start another one with /session_new <name>.");
+    return { text: lines.join("\n") };
+  }
+  const keyboard = new InlineKeyboard();
+  for (const session of others) {
+    keyboard.text(`Switch to ${session.name}`, `ss:${session.name}`).row();
+  }
+  return { text: lines.join("\n"), keyboard };
+}
+
+/** Text after the command, split on whitespace. */
+function commandArgs(gramCtx: Context): string[] {
+  const text = gramCtx.message?.text ?? "";
+  return text
+    .replace(/^\/\w+(@\w+)?/, "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Shared guard + error handling for the session commands.
+ */
+function sessionCommand(
+  ctx: ProjectContext,
+  action: (
+    gramCtx: Context,
+    userDir: string,
+    workspaceKey: string,
+  ) => Promise<void>,
+) {
+  return async (gramCtx: Context): Promise<void> => {
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !workspace) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+    const reason = unavailableReason(ctx);
+    if (reason) {
+      await gramCtx.reply(reason);
+      return;
+    }
+    try {
+      await action(gramCtx, workspace.dir, workspace.key);
+    } catch (err) {
+      if (err instanceof NamedSessionError) {
+        await gramCtx.reply(err.message);
+        return;
+      }
+      ctx.logger.error({ err, userId }, "Session command failed");
+      await gramCtx.reply("Could not update your sessions.");
+    }
+  };
+}
+
+function busyMessage(
+  ctx: ProjectContext,
+  workspaceKey: string,
+): string | undefined {
+  const { slug } = ctx.config;
+  const queue = getQueue(slug, workspaceKey);
+  if (isRunning(slug, workspaceKey) || queue.active) {
+    return "Wait for the running message to finish (or /stop it) before switching sessions.";
+  }
+  // Queued messages would run in the newly selected session
+  return queue.pending.length > 0
+    ? "Wait for your queued messages to run (or drop them with /queue) before switching sessions."
+    : undefined;
+}
+
+/**
+ * /sessions — list the user's sessions with a button to switch to each one.
+ */
+export function createSessionsHandler(ctx: ProjectContext) {
+  return sessionCommand(ctx, async (gramCtx, userDir) => {
+    const { text, keyboard } = await renderSessions(userDir);
+    await gramCtx.reply(text, { reply_markup: keyboard });
+  });
+}
+
+/**
+ * /session_new <name> — start a fresh session and make it active.
+ */
+export function createSessionNewHandler(ctx: ProjectContext) {
+  return sessionCommand(ctx, async (gramCtx, userDir, workspaceKey) => {
+    const [name] = commandArgs(gramCtx);
+    if (!name) {
+      await gramCtx.reply("Usage: /session_new <name>");
+      return;
+    }
+    const busy = busyMessage(ctx, workspaceKey);
+    if (busy) {
+      await gramCtx.reply(busy);
+      return;
+    }
+    await createNamedSession(userDir, name);
+    ctx.logger.info(
+      { userId: gramCtx.from?.id, workspace: workspaceKey, session: name },
+      "Named session created",
+    );
+    await gramCtx.reply(
+      `Session "${name}" started. Your next message begins a new conversation.`,
+    );
+  });
+}
+
+/**
+ * /session_rename [<from>] <to> — rename the active (or the given) session.
+ */
+export function createSessionRenameHandler(ctx: ProjectContext) {
+  return sessionCommand(ctx, async (gramCtx, userDir) => {
+    const args = commandArgs(gramCtx);
+    if (args.length === 0 || args.length > 2) {
+      await gramCtx.reply(
+        "Usage: /session_rename <new name> (active session) or /session_rename <name> <new name>",
+      );
+      return;
+    }
+    const [from, to] = args.length === 2 ? args : [undefined, args[0]];
+    await renameNamedSession(userDir, from, to);
+    await gramCtx.reply(`Session renamed to "${to}".`);
+  });
+}
+
+/**
+ * /session_delete <name> — delete a session that is not active.
+ */
+export function createSessionDeleteHandler(ctx: ProjectContext) {
+  return sessionCommand(ctx, async (gramCtx, userDir, workspaceKey) => {
+    const [name] = commandArgs(gramCtx);
+    if (!name) {
+      await gramCtx.reply("Usage: /session_delete <name>");
+      return;
+    }
+    await deleteNamedSession(userDir, name);
+    ctx.logger.info(
+      { userId: gramCtx.from?.id, workspace: workspaceKey, session: name },
+      "Named session deleted",
+    );
+    await gramCtx.reply(`Session "${name}" deleted.`);
+  });
+}
+
+/**
+ * Callback query handler for the /sessions buttons (`ss:<name>`).
+ * Ignores all other callbacks.
+ */
+export function createSessionsCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("ss:")) {
+      await next();
+      return;
+    }
+
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !workspace) {
+      await gramCtx.answerCallbackQuery();
+      return;
+    }
+    const reason = unavailableReason(ctx) ?? busyMessage(ctx, workspace.key);
+    if (reason) {
+      await gramCtx.answerCallbackQuery({ text: reason, show_alert: true });
+      return;
+    }
+
+    const name = data.slice(3);
+    const userDir = workspace.dir;
+    try {
+      await switchNamedSession(userDir, name);
+    } catch (err) {
+      await gramCtx.answerCallbackQuery({
+        text:
+          err instanceof NamedSessionError
+            ? err.message
+            : "Could not switch session.",
+      });
+      return;
+    }
+    ctx.logger.info(
+      { userId, workspace: workspace.key, session: name },
+      "Named session switched",
+    );
+    await gramCtx.answerCallbackQuery({ text: `Switched to ${name}` });
+
+    const { text, keyboard } = await renderSessions(userDir);
+    try {
+      await gramCtx.editMessageText(text, { reply_markup: keyboard });
+    } catch {
+      // Message unchanged or gone
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import type { Context, NextFunction } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import { abortRun } from "../handlers/inflight.js";
+import { resolveWorkspace } from "../handlers/workspace.js";
+
+/**
+ * Returns a handler for the /stop command.
+ * Kills the engine process tree of the workspace's in-flight call (the
+ * user's own in private chats); the running handler then reports any
+ * partial output.
+ */
+export function createStopHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const userId = gramCtx.from?.id;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !workspace) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+
+    if (abortRun(ctx.config.slug, workspace.key)) {
+      ctx.logger.info({ userId }, "Engine run stopped via /stop");
+      await gramCtx.reply("_Stopping..._", { parse_mode: "Markdown" });
+    } else {
+      await gramCtx.reply("Nothing is running.");
+    }
+  };
+}
+
+/**
+ * Callback query handler for the Stop button on the status message.
+ * Recognizes data prefixed with `st:` and ignores all other callbacks.
+ */
+export function createStopCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("st:")) {
+      return next();
+    }
+
+    const targetKey = data.slice("st:".length);
+    if (resolveWorkspace(ctx, gramCtx)?.key !== targetKey) {
+      await gramCtx.answerCallbackQuery({
+        text: "This action is not for you.",
+      });
+      return;
+    }
+
+    if (abortRun(ctx.config.slug, targetKey)) {
+      ctx.logger.info(
+        { userId: gramCtx.from?.id, workspace: targetKey },
+        "Engine run stopped via button",
+      );
+      await gramCtx.answerCallbackQuery({ text: "Stopping..." });
+    } else {
+      await gramCtx.answerCallbackQuery({ text: "Nothing is running." });
+      try {
+        await gramCtx.editMessageReplyMarkup({ reply_markup: undefined });
+      } catch {
+        // Message may already be gone
+      }
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import type { Context } from "grammy";
+import { sendChunkedResponse } from "../../telegram/chunker.js";
+import type { ProjectContext } from "../../types.js";
+import {
+  formatCost,
+  formatTokens,
+  readUsage,
+  sumUsage,
+  type UsageRecord,
+} from "../../usage/store.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Period {
+  label: string;
+  since: Date;
+}
+
+function periods(now: Date): Period[] {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  return [
+    { label: "today", since: midnight },
+    { label: "7 days", since: new Date(now.getTime() - 7 * DAY_MS) },
+    { label: "30 days", since: new Date(now.getTime() - 30 * DAY_MS) },
+  ];
+}
+
+function renderGroup(
+  title: string,
+  records: UsageRecord[],
+  ranges: Period[],
+): string[] {
+  const lines = [title];
+  for (const { label, since } of ranges) {
+    const t = sumUsage(records.filter((r) => new Date(r.ts) >= since));
+    lines.push(
+      `  ${label.padEnd(8)}${String(t.calls).padStart(4)} calls  ${formatCost(t.costUsd).padEnd(9)} ${formatTokens(t.inputTokens)} in / ${formatTokens(t.outputTokens)} out`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Returns a handler for the /usage command.
+ * Shows today / 7-day / 30-day totals for the project, per user and per
+ * engine, from the usage log in the project's dataDir.
+ */
+export function createUsageHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context): Promise<void> => {
+    const userId = gramCtx.from?.id;
+    if (!userId) {
+      await gramCtx.reply("Could not identify user.");
+      return;
+    }
+
+    const ranges = periods(new Date());
+    const records = await readUsage(
+      ctx.config.dataDir,
+      ranges[ranges.length - 1].since,
+    );
+    if (records.length === 0) {
+      await gramCtx.reply("No usage recorded in the last 30 days.");
+      return;
+    }
+
+    const lines = renderGroup("Total", records, ranges);
+
+    // Requesting user first, then everybody else
+    const userIds = [...new Set(records.map((r) => r.userId))].sort((a, b) =>
+      a === userId ? -1 : b === userId ? 1 : a - b,
+    );
+    for (const id of userIds) {
+      lines.push(
+        "",
+        ...renderGroup(
+          id === userId
+            ? `User ${id} (you)`
+            : id === 0
+              ? "Crons"
+              : `User ${id}`,
+          records.filter((r) => r.userId === id),
+          ranges,
+        ),
+      );
+    }
+
+    const engines = [...new Set(records.map((r) => r.engine))].sort();
+    for (const engine of engines) {
+      lines.push(
+        "",
+        ...renderGroup(
+          `Engine ${engine}`,
+          records.filter((r) => r.engine === engine),
+          ranges,
+        ),
+      );
+    }
+
+    await sendChunkedResponse(gramCtx, `\`\`\`\n${lines.join("\n")}\n\`\`\``);
+  };
+}
@@ -2,12 +2,14 @@ import { existsSync } from "node:fs";
 import { join } from "node:path";
 import type { Bot } from "grammy";
 import type pino from "pino";
+import type { ResolvedProjectConfig } from "../../config.js";
 import {
   type CommandEnabledFlags,
   commandsForTelegramMenu,
   getCommandsWithDescriptionTooLong,
   loadCommands,
 } from "./loader.js";
+import { publishCommandMenu } from "./menu.js";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -28,6 +30,7 @@ export function startCommandWatcher(
   logger: pino.Logger,
   skillsDirs?: string[],
   enabled?: CommandEnabledFlags,
+  access?: ResolvedProjectConfig["access"],
 ): CommandWatcher {
   const projectCommandDir = join(projectCwd, ".hal", "commands");
   const globalCommandDir = join(configDir, ".hal", "commands");
@@ -61,12 +64,7 @@ export function startCommandWatcher(
         );
         return;
       }
-      await bot.api.setMyCommands(
-        commandsForMenu.map((c) => ({
-          command: c.command,
-          description: c.description,
-        })),
-      );
+      await publishCommandMenu(bot.api, commandsForMenu, access, logger);
       logger.info(
         {
           count: commandsForMenu.length,
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { approvalRule } from "./approval.js";
+
+function bash(command: string): string | undefined {
+  return approvalRule({ toolName: "Bash", input: { command } });
+}
+
+describe("approvalRule", () => {
+  it("keys shell commands on program and subcommand", () => {
+    expect(bash("git status -s")).toBe("Bash(git status:*)");
+    expect(bash("git push --force")).toBe("Bash(git push:*)");
+    expect(bash("ls")).toBe("Bash(ls)");
+    // An option or a path as second word: only this exact command
+    expect(bash("git -C /tmp push")).toBe("Bash(git -C /tmp push)");
+    expect(approvalRule({ toolName: "Edit", input: { file_path: "a" } })).toBe(
+      "Edit",
+    );
+  });
+
+  it("offers no rule for compound, wrapped or assigning commands", () => {
+    for (const command of [
+      "cd src && ls",
+      "git status; rm -rf /",
+      "cat a | sh",
+      "echo $(id)",
+      "echo `id`",
+      "ls > out.txt",
+      "sudo rm -rf build",
+      "sh -c 'ls'",
+      "FOO=1 npm test",
+      "/usr/bin/sudo rm -rf build",
+      "/bin/sh -c 'ls'",
+    ]) {
+      expect(bash(command), command).toBeUndefined();
+    }
+  });
+});
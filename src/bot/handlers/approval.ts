@@ -0,0 +1,262 @@
+import { basename } from "node:path";
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type {
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from "../../engine/types.js";
+import type { ProjectContext } from "../../types.js";
+import { readUserSettings, updateUserSettings } from "../../user/settings.js";
+import { isAdmin } from "../middleware/auth.js";
+
+const MAX_INPUT_CHARS = 1500;
+
+interface PendingApproval {
+  resolve: (decision: ToolApprovalDecision) => void;
+  /** User whose message started the run; only they (or an admin) may answer. */
+  userId: number;
+  userDir: string;
+  /** Undefined when "Always" is not offered. */
+  rule: string | undefined;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Open prompts by id, across projects (ids are unique per process). */
+const pending = new Map<string, PendingApproval>();
+let nextId = 1;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** "45s", "2m" */
+function formatTimeout(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+/** Chaining, pipes, substitutions and redirections: more than one program. */
+const COMPOUND_COMMAND = /&&|\|\||[;|&`<>\n]|\$\(/;
+
+/** Programs that run other commands given as arguments. */
+const WRAPPERS = new Set([
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "sudo",
+  "env",
+  "xargs",
+  "eval",
+  "exec",
+  "nohup",
+  "nice",
+  "time",
+  "timeout",
+  "watch",
+  "command",
+]);
+
+/**
+ * What "Always" allows, or undefined when it is not offered. Tools other
+ * than Bash are allowed by name. Shell commands are keyed on program and
+ * subcommand (`Bash(git status:*)`), or on the exact command when the second
+ * word is an option or a path. Compound commands, variable assignments and
+ * wrappers such as `sudo` or `sh -c` never get a rule: approving one part
+ * would allow anything chained to it.
+ */
+export function approvalRule(request: ToolApprovalRequest): string | undefined {
+  const command = request.input.command;
+  if (request.toolName !== "Bash") return request.toolName;
+  if (typeof command !== "string") return undefined;
+
+  const trimmed = command.trim();
+  if (!trimmed || COMPOUND_COMMAND.test(trimmed)) return undefined;
+  const [program, subcommand] = trimmed.split(/\s+/);
+  // By basename, so `/usr/bin/sudo` is a wrapper too
+  if (program.includes("=") || WRAPPERS.has(basename(program))) {
+    return undefined;
+  }
+  if (subcommand === undefined) return `Bash(${program})`;
+  if (/^[A-Za-z][\w:.-]*$/.test(subcommand)) {
+    return `Bash(${program} ${subcommand}:*)`;
+  }
+  return `Bash(${trimmed})`;
+}
+
+/** The part of the tool input worth showing: command, path, URL or the raw JSON. */
+function describeInput(input: Record<string, unknown>): string {
+  const value = input.command ?? input.file_path ?? input.path ?? input.url;
+  const text =
+    typeof value === "string" ? value : JSON.stringify(input, null, 2);
+  return text.length > MAX_INPUT_CHARS
+    ? `${text.slice(0, MAX_INPUT_CHARS - 1)}…`
+    : text;
+}
+
+async function editPrompt(
+  gramCtx: Context,
+  chatId: number,
+  messageId: number,
+  text: string,
+): Promise<void> {
+  try {
+    await gramCtx.api.editMessageText(chatId, messageId, text, {
+      parse_mode: "HTML",
+      reply_markup: undefined,
+    });
+  } catch {
+    // Message may already be gone
+  }
+}
+
+/**
+ * Permission broker for one engine run (engine.approvals): each tool call the
+ * engine asks about becomes an "Allow once / Always / Deny" prompt in the
+ * chat. Tools allowed with "Always" in this workspace pass without asking.
+ * Unanswered prompts are denied after `engine.approvals.timeout`, and when
+ * the run is stopped.
+ */
+export function createToolApprover(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  userDir: string,
+  signal: AbortSignal,
+): (request: ToolApprovalRequest) => Promise<ToolApprovalDecision> {
+  return async (request) => {
+    const { config, logger } = ctx;
+    const userId = gramCtx.from?.id;
+    const chatId = gramCtx.chat?.id;
+    if (!userId || !chatId || signal.aborted) {
+      return { allow: false, message: "The run was stopped." };
+    }
+
+    const rule = approvalRule(request);
+    const { allowedTools } = await readUserSettings(userDir);
+    if (rule && allowedTools?.includes(rule)) {
+      logger.debug({ rule }, "Tool call allowed by an earlier approval");
+      return { allow: true };
+    }
+
+    const id = String(nextId++);
+    const timeoutMs = config.engineApprovals.timeoutMs;
+    const keyboard = new InlineKeyboard().text("Allow once", `ap:${id}:once`);
+    if (rule) keyboard.text("Always", `ap:${id}:always`);
+    keyboard.text("Deny", `ap:${id}:deny`);
+    const summary = `<b>${escapeHtml(request.toolName)}</b>\n<pre>${escapeHtml(describeInput(request.input))}</pre>`;
+    const message = await gramCtx.reply(
+      `🔐 Approval needed\n\n${summary}\n<i>Denied automatically in ${formatTimeout(timeoutMs)}.</i>`,
+      { parse_mode: "HTML", reply_markup: keyboard },
+    );
+    logger.info({ id, tool: request.toolName, rule }, "Tool approval asked");
+
+    return new Promise<ToolApprovalDecision>((resolve) => {
+      const finish = (decision: ToolApprovalDecision, note: string) => {
+        if (!pending.delete(id)) return;
+        clearTimeout(entry.timer);
+        signal.removeEventListener("abort", onAbort);
+        void editPrompt(
+          gramCtx,
+          chatId,
+          message.message_id,
+          `${note}\n\n${summary}`,
+        );
+        resolve(decision);
+      };
+      const onAbort = () =>
+        finish(
+          { allow: false, message: "The run was stopped." },
+          "⏹ Run stopped",
+        );
+
+      const entry: PendingApproval = {
+        userId,
+        userDir,
+        rule,
+        resolve: (decision) =>
+          finish(
+            decision,
+            decision.allow ? "✅ Allowed" : "🚫 Denied by the user",
+          ),
+        timer: setTimeout(() => {
+          logger.info({ id, rule }, "Tool approval timed out");
+          finish(
+            {
+              allow: false,
+              message: `The user did not answer within ${formatTimeout(timeoutMs)}.`,
+            },
+            `⏱ Denied: no answer within ${formatTimeout(timeoutMs)}`,
+          );
+        }, timeoutMs),
+      };
+      pending.set(id, entry);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  };
+}
+
+/**
+ * Callback query handler for approval prompts. Recognizes data prefixed with
+ * `ap:` (`ap:<id>:once|always|deny`) and ignores all other callbacks.
+ */
+export function createApprovalCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("ap:")) {
+      return next();
+    }
+
+    const [, id, choice] = data.split(":");
+    const entry = pending.get(id);
+    if (!entry) {
+      await gramCtx.answerCallbackQuery({
+        text: "This request is no longer open.",
+      });
+      return;
+    }
+
+    const userId = gramCtx.from?.id;
+    if (userId !== entry.userId && !isAdmin(ctx, userId)) {
+      await gramCtx.answerCallbackQuery({
+        text: "Only the user who started this run can answer.",
+      });
+      return;
+    }
+
+    const { rule } = entry;
+    if (choice === "always") {
+      if (!rule) {
+        await gramCtx.answerCallbackQuery({
+          text: "This command cannot be allowed permanently.",
+        });
+        return;
+      }
+      const { allowedTools = [] } = await readUserSettings(entry.userDir);
+      if (!allowedTools.includes(rule)) {
+        await updateUserSettings(entry.userDir, {
+          allowedTools: [...allowedTools, rule],
+        });
+      }
+    }
+
+    // Only the two allow buttons allow; anything else denies
+    const allow = choice === "once" || choice === "always";
+    ctx.logger.info({ id, rule: entry.rule, choice, userId }, "Tool approval");
+    entry.resolve(
+      allow
+        ? { allow: true }
+        : { allow: false, message: "The user denied this tool call." },
+    );
+    await gramCtx.answerCallbackQuery({
+      text:
+        choice === "always"
+          ? `${rule} allowed from now on.`
+          : allow
+            ? "Allowed once."
+            : "Denied.",
+    });
+  };
+}
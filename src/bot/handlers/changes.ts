@@ -0,0 +1,274 @@
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import {
+  type CheckpointConfig,
+  projectPathspec,
+  snapshotTree,
+} from "../commands/git/checkpoint.js";
+import { createGitCommitHandler } from "../commands/git/commit.js";
+import { replyWithDiff } from "../commands/git/diff.js";
+import { gitExec, LARGE_OUTPUT } from "../commands/git/exec.js";
+import { isGitCwdBusy } from "../commands/git/worktree.js";
+
+/** Runs whose summary buttons still work; older ones are forgotten. */
+const MAX_TRACKED_RUNS = 50;
+/** Files with their own buttons in a summary. */
+const MAX_FILES = 10;
+const MAX_PATH_CHARS = 32;
+
+interface ChangedFile {
+  path: string;
+  /** Undefined for binary files. */
+  added?: number;
+  deleted?: number;
+  /** Created by the run: reverting deletes it. */
+  created: boolean;
+  reverted?: boolean;
+}
+
+/** What one engine run changed, between two snapshots of the project. */
+export interface RunChanges {
+  /** Where the run worked: the project cwd or the workspace's worktree. */
+  cwd: string;
+  /** Tree before the run; reverting a file restores it from here. */
+  before: string;
+  after: string;
+  files: ChangedFile[];
+  /** User whose message made the changes: the only one who may revert them. */
+  userId?: number;
+}
+
+/** Change sets by run id, for the summary buttons (`ch:`). */
+const runs = new Map<string, RunChanges>();
+let nextRunId = 1;
+
+/**
+ * Compare the project with the snapshot taken before the run.
+ * Undefined when the run changed nothing.
+ */
+export async function collectRunChanges(
+  config: CheckpointConfig,
+  before: string,
+): Promise<RunChanges | undefined> {
+  const { cwd } = config;
+  const after = await snapshotTree(config);
+  if (after === before) return undefined;
+
+  const range = [before, after, "--", ...projectPathspec(config)];
+  const base = ["diff", "--no-renames", "--relative", "-z"];
+  const [{ stdout: numstat }, { stdout: created }] = await Promise.all([
+    gitExec(cwd, [...base, "--numstat", ...range]),
+    gitExec(cwd, [...base, "--name-only", "--diff-filter=A", ...range]),
+  ]);
+  const createdPaths = new Set(created.split("\0").filter(Boolean));
+  const files = numstat
+    .split("\0")
+    .filter(Boolean)
+    .map((entry): ChangedFile => {
+      const [added, deleted, ...rest] = entry.split("\t");
+      const path = rest.join("\t");
+      return added === "-"
+        ? { path, created: createdPaths.has(path) }
+        : {
+            path,
+            added: Number(added),
+            deleted: Number(deleted),
+            created: createdPaths.has(path),
+          };
+    });
+  return files.length > 0 ? { cwd, before, after, files } : undefined;
+}
+
+function shortPath(path: string): string {
+  return path.length > MAX_PATH_CHARS
+    ? `…${path.slice(-MAX_PATH_CHARS)}`
+    : path;
+}
+
+function summaryText(changes: RunChanges): string {
+  const added = changes.files.reduce((sum, f) => sum + (f.added ?? 0), 0);
+  const deleted = changes.files.reduce((sum, f) => sum + (f.deleted ?? 0), 0);
+  const count =
+    changes.files.length === 1 ? "1 file" : `${changes.files.length} files`;
+  const lines = [`Changed: ${count} (+${added}/−${deleted})`];
+  const reverted = changes.files.filter((f) => f.reverted).length;
+  if (reverted > 0) lines.push(`Reverted since: ${reverted}`);
+  if (changes.files.length > MAX_FILES) {
+    lines.push(
+      `${changes.files.length - MAX_FILES} more not shown: use /git_diff`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function summaryKeyboard(id: string, changes: RunChanges): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  changes.files.slice(0, MAX_FILES).forEach((file, i) => {
+    const stats =
+      file.added === undefined ? "binary" : `+${file.added} −${file.deleted}`;
+    keyboard.text(`${shortPath(file.path)} ${stats}`, `ch:d:${id}:${i}`);
+    if (!file.reverted) {
+      keyboard.text("↩ Revert", `ch:r:${changes.userId}:${id}:${i}`);
+    }
+    keyboard.row();
+  });
+  keyboard.text("Commit all", `ch:c:${id}`);
+  return keyboard;
+}
+
+/**
+ * Send the change summary of a run: totals, and per file a button for its
+ * diff and one to revert it, plus "Commit all" (the /git_commit flow).
+ */
+export async function sendChangeSummary(
+  gramCtx: Context,
+  changes: RunChanges,
+): Promise<void> {
+  const id = String(nextRunId++);
+  changes.userId = gramCtx.from?.id;
+  runs.set(id, changes);
+  if (runs.size > MAX_TRACKED_RUNS) {
+    runs.delete(runs.keys().next().value as string);
+  }
+  await gramCtx.reply(summaryText(changes), {
+    reply_markup: summaryKeyboard(id, changes),
+  });
+}
+
+/** Put one file back as it was before the run. */
+async function revertFile(
+  changes: RunChanges,
+  file: ChangedFile,
+): Promise<void> {
+  const { cwd } = changes;
+  if (file.created) {
+    await rm(join(cwd, file.path), { force: true });
+    return;
+  }
+  await gitExec(cwd, [
+    "restore",
+    `--source=${changes.before}`,
+    "--worktree",
+    "--",
+    file.path,
+  ]);
+}
+
+/**
+ * Callback query handler for change summary buttons. Recognizes data
+ * prefixed with `ch:` (`ch:d:<run>:<file>`, `ch:r|y:<userId>:<run>:<file>`,
+ * `ch:n|c:<run>`) and ignores all other callbacks.
+ */
+export function createChangesCallbackHandler(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const data = gramCtx.callbackQuery?.data;
+    if (!data?.startsWith("ch:")) {
+      return next();
+    }
+
+    const { logger } = ctx;
+    const [, action, ...args] = data.split(":");
+    // Revert buttons carry the user who sent the message first
+    const reverts = action === "r" || action === "y";
+    const targetUserId = reverts ? args.shift() : undefined;
+    const [id, rawIndex] = args;
+    if (reverts && String(gramCtx.from?.id) !== targetUserId) {
+      await gramCtx.answerCallbackQuery({
+        text: "This action is not for you.",
+      });
+      return;
+    }
+    const changes = runs.get(id);
+    if (!changes) {
+      await gramCtx.answerCallbackQuery({
+        text: "These changes are no longer tracked. Use /git_diff.",
+      });
+      return;
+    }
+    const file = changes.files[Number(rawIndex)];
+
+    try {
+      if (action === "c") {
+        await gramCtx.answerCallbackQuery();
+        await createGitCommitHandler(ctx)(gramCtx);
+        return;
+      }
+
+      if (action === "n") {
+        await gramCtx.editMessageText(summaryText(changes), {
+          reply_markup: summaryKeyboard(id, changes),
+        });
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (!file) {
+        await gramCtx.answerCallbackQuery({ text: "Unknown file." });
+        return;
+      }
+
+      if (action === "d") {
+        const { stdout } = await gitExec(
+          changes.cwd,
+          [
+            "diff",
+            "--no-renames",
+            "--relative",
+            changes.before,
+            changes.after,
+            "--",
+            file.path,
+          ],
+          LARGE_OUTPUT,
+        );
+        await gramCtx.answerCallbackQuery();
+        await replyWithDiff(gramCtx, file.path, "changed by this run", stdout);
+        return;
+      }
+
+      if (action === "r") {
+        const keyboard = new InlineKeyboard()
+          .text("Confirm", `ch:y:${targetUserId}:${id}:${rawIndex}`)
+          .text("Cancel", `ch:n:${id}`);
+        await gramCtx.editMessageText(
+          file.created
+            ? `Delete ${file.path}, created by this run?`
+            : `Revert ${file.path} to before this run? Later edits to it are lost too.`,
+          { reply_markup: keyboard },
+        );
+        await gramCtx.answerCallbackQuery();
+        return;
+      }
+
+      if (action === "y") {
+        if (isGitCwdBusy(ctx, gramCtx)) {
+          await gramCtx.answerCallbackQuery({
+            text: "Wait for the running message to finish (or /stop it).",
+          });
+          return;
+        }
+        await revertFile(changes, file);
+        file.reverted = true;
+        logger.info({ file: file.path }, "Reverted file changed by a run");
+        await gramCtx.editMessageText(summaryText(changes), {
+          reply_markup: summaryKeyboard(id, changes),
+        });
+        await gramCtx.answerCallbackQuery({ text: `Reverted ${file.path}.` });
+        return;
+      }
+    } catch (err) {
+      logger.error(
+        { data, error: err instanceof Error ? err.message : String(err) },
+        "Change summary callback failed",
+      );
+      try {
+        await gramCtx.answerCallbackQuery({ text: "Operation failed." });
+      } catch {
+        // ignore
+      }
+    }
+  };
+}
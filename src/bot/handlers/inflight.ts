@@ -0,0 +1,74 @@
+/**
+ * In-flight engine runs, one per project + workspace (see workspace.ts).
+ * Lets /stop (and the inline Stop button) abort the run started by a handler.
+ */
+const inflight = new Map<string, AbortController>();
+
+function runKey(slug: string, workspaceKey: string): string {
+  return `${slug}:${workspaceKey}`;
+}
+
+/**
+ * Register a new run for a workspace and return its AbortController.
+ * A previous run still registered for the same workspace is left untouched;
+ * only the latest one is reachable through `abortRun`.
+ */
+export function trackRun(slug: string, workspaceKey: string): AbortController {
+  const controller = new AbortController();
+  inflight.set(runKey(slug, workspaceKey), controller);
+  return controller;
+}
+
+/**
+ * Remove a run from the registry once it has finished.
+ * No-op when a newer run has replaced it in the meantime.
+ */
+export function releaseRun(
+  slug: string,
+  workspaceKey: string,
+  controller: AbortController,
+): void {
+  const key = runKey(slug, workspaceKey);
+  if (inflight.get(key) === controller) {
+    inflight.delete(key);
+  }
+}
+
+/**
+ * True while a run of the workspace is in flight.
+ */
+export function isRunning(slug: string, workspaceKey: string): boolean {
+  return inflight.has(runKey(slug, workspaceKey));
+}
+
+/**
+ * True while any workspace of the project has a run in flight.
+ */
+export function isProjectRunning(slug: string): boolean {
+  const prefix = runKey(slug, "");
+  for (const key of inflight.keys()) {
+    if (key.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
+/**
+ * Abort the in-flight run of a workspace. Returns false when nothing is running.
+ */
+export function abortRun(slug: string, workspaceKey: string): boolean {
+  const key = runKey(slug, workspaceKey);
+  const controller = inflight.get(key);
+  if (!controller) return false;
+  inflight.delete(key);
+  controller.abort();
+  return true;
+}
+
+/**
+ * Abort every in-flight run, of all projects (on shutdown).
+ */
+export function abortAll(): void {
+  const controllers = [...inflight.values()];
+  inflight.clear();
+  for (const controller of controllers) controller.abort();
+}
@@ -1,17 +1,11 @@
 import { writeFile } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { join } from "node:path";
 import type { Context } from "grammy";
-import { sendChunkedResponse } from "../../telegram/chunker.js";
-import { sendDownloadFiles } from "../../telegram/fileSender.js";
 import type { ProjectContext } from "../../types.js";
-import {
-  ensureUserSetup,
-  getDownloadsPath,
-  getSessionId,
-  getUploadsPath,
-  saveSessionId,
-} from "../../user/setup.js";
-import { shouldLoadSessionFromUserDir } from "./session.js";
+import { ensureUserSetup, getUploadsPath } from "../../user/setup.js";
+import { stripBotMention } from "../middleware/group.js";
+import { enqueueEngineTurn } from "./queue.js";
+import { resolveWorkspace } from "./workspace.js";
 
 /**
  * Returns a handler for photo messages.
@@ -21,15 +15,18 @@ export function createPhotoHandler(ctx: ProjectContext) {
     const { config, logger } = ctx;
     const userId = gramCtx.from?.id;
     const photo = gramCtx.message?.photo;
-    const caption = gramCtx.message?.caption || "Please analyze this image.";
+    const caption =
+      stripBotMention(gramCtx, gramCtx.message?.caption ?? "") ||
+      "Please analyze this image.";
 
-    if (!userId || !photo || photo.length === 0) {
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !photo || photo.length === 0 || !workspace) {
       return;
     }
 
     logger.info({ userId }, "Photo received");
 
-    const userDir = resolve(join(config.dataDir, String(userId)));
+    const userDir = workspace.dir;
 
     try {
       await ensureUserSetup(userDir);
@@ -57,62 +54,14 @@ export function createPhotoHandler(ctx: ProjectContext) {
       logger.debug({ path: imagePath }, "Image saved");
 
       const prompt = `Please look at the image file "./uploads/${imageName}" and ${caption}`;
-      const shouldLoadSession = shouldLoadSessionFromUserDir(
-        config.engineSession,
-        ctx.engine,
-      );
-      const sessionId = shouldLoadSession ? await getSessionId(userDir) : null;
 
-      const statusMsg = await gramCtx.reply("_Processing..._", {
-        parse_mode: "Markdown",
+      // Runs after the user's earlier messages; resolves once queued.
+      await enqueueEngineTurn(ctx, gramCtx, {
+        prompt,
+        userDir,
+        errorPrefix: "An error occurred processing the image",
+        uploads: [imageName],
       });
-      let lastProgressUpdate = Date.now();
-      let lastProgressText = "Processing...";
-
-      const onProgress = async (message: string) => {
-        const now = Date.now();
-        if (now - lastProgressUpdate > 2000 && message !== lastProgressText) {
-          lastProgressUpdate = now;
-          lastProgressText = message;
-          try {
-            await gramCtx.api.editMessageText(
-              gramCtx.chat!.id,
-              statusMsg.message_id,
-              `_${message}_`,
-              { parse_mode: "Markdown" },
-            );
-          } catch {
-            // Ignore edit errors
-          }
-        }
-      };
-
-      const downloadsPath = getDownloadsPath(userDir);
-
-      logger.info("Executing engine query with image");
-      const result = await ctx.engine.execute(
-        { prompt, gramCtx, userDir, downloadsPath, sessionId, onProgress },
-        ctx,
-      );
-
-      try {
-        await gramCtx.api.deleteMessage(gramCtx.chat!.id, statusMsg.message_id);
-      } catch {
-        // Ignore delete errors
-      }
-
-      const parsed = ctx.engine.parse(result);
-
-      if (config.engineSession !== false && parsed.sessionId) {
-        await saveSessionId(userDir, parsed.sessionId);
-      }
-
-      await sendChunkedResponse(gramCtx, parsed.text);
-
-      const filesSent = await sendDownloadFiles(gramCtx, userDir, ctx);
-      if (filesSent > 0) {
-        logger.info({ filesSent }, "Sent download files to user");
-      }
     } catch (error) {
       logger.error({ error }, "Photo handler error");
       const errorMessage =
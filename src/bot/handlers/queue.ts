@@ -0,0 +1,240 @@
+import type { Context } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { ProjectContext } from "../../types.js";
+import { type EngineTurnOptions, runEngineTurn } from "./turn.js";
+import { resolveWorkspace } from "./workspace.js";
+
+/** A message waiting for (or holding) the workspace's engine slot. */
+export interface QueuedTurn {
+  id: number;
+  /** Short preview of the prompt, shown by /queue. */
+  label: string;
+  chatId: number;
+  /** Status message showing the queue position; reused once the turn starts. */
+  statusMsgId?: number;
+  enqueuedAt: number;
+}
+
+interface QueueEntry extends QueuedTurn {
+  gramCtx: Context;
+  start: (statusMsgId?: number) => Promise<void>;
+}
+
+interface WorkspaceQueue {
+  active: QueueEntry | null;
+  pending: QueueEntry[];
+}
+
+const LABEL_MAX_LENGTH = 40;
+
+/** Per project + workspace FIFO of engine turns; at most one runs at a time. */
+const queues = new Map<string, WorkspaceQueue>();
+let nextTurnId = 1;
+
+function queueKey(slug: string, workspaceKey: string): string {
+  return `${slug}:${workspaceKey}`;
+}
+
+function toLabel(prompt: string): string {
+  const flat = prompt.replace(/\s+/g, " ").trim();
+  return flat.length <= LABEL_MAX_LENGTH
+    ? flat
+    : `${flat.slice(0, LABEL_MAX_LENGTH - 1)}…`;
+}
+
+function queuedText(position: number): string {
+  return `_Queued (#${position})_`;
+}
+
+function dropKeyboard(
+  ctx: ProjectContext,
+  workspaceKey: string,
+  id: number,
+): InlineKeyboard | undefined {
+  return ctx.config.commands.queue.enabled
+    ? new InlineKeyboard().text("Drop", `q:drop:${workspaceKey}:${id}`)
+    : undefined;
+}
+
+function toPublic(entry: QueueEntry): QueuedTurn {
+  const { id, label, chatId, statusMsgId, enqueuedAt } = entry;
+  return { id, label, chatId, statusMsgId, enqueuedAt };
+}
+
+/**
+ * Re-render "Queued (#n)" on every waiting status message after the queue
+ * moved. Position #1 is the running turn, so waiting turns start at #2.
+ */
+async function refreshPositions(
+  ctx: ProjectContext,
+  workspaceKey: string,
+  queue: WorkspaceQueue,
+) {
+  for (let i = 0; i < queue.pending.length; i++) {
+    const entry = queue.pending[i];
+    if (entry.statusMsgId === undefined) continue;
+    try {
+      await entry.gramCtx.api.editMessageText(
+        entry.chatId,
+        entry.statusMsgId,
+        queuedText(i + 2),
+        {
+          parse_mode: "Markdown",
+          reply_markup: dropKeyboard(ctx, workspaceKey, entry.id),
+        },
+      );
+    } catch {
+      // Ignore edit errors (e.g. text unchanged)
+    }
+  }
+}
+
+function drain(
+  ctx: ProjectContext,
+  key: string,
+  workspaceKey: string,
+  queue: WorkspaceQueue,
+): void {
+  if (queue.active) return;
+  const next = queue.pending.shift();
+  if (!next) {
+    queues.delete(key);
+    return;
+  }
+  queue.active = next;
+  void refreshPositions(ctx, workspaceKey, queue);
+  next.start(next.statusMsgId).finally(() => {
+    queue.active = null;
+    drain(ctx, key, workspaceKey, queue);
+  });
+}
+
+/**
+ * Queue an engine turn in the update's workspace (the user's private chat, or
+ * a group / forum topic). Starts it right away when nothing is running there; otherwise posts a "Queued (#n)" status message that the
+ * turn takes over once its predecessors finished.
+ *
+ * Resolves as soon as the turn is started or queued — never waits for the
+ * engine, so Grammy keeps processing /stop and /queue meanwhile.
+ */
+export async function enqueueEngineTurn(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  options: EngineTurnOptions,
+): Promise<void> {
+  await enqueueWorkspaceTask(ctx, gramCtx, {
+    label: options.prompt,
+    statusMsgId: options.statusMsgId,
+    start: (statusMsgId) =>
+      runEngineTurn(ctx, gramCtx, { ...options, statusMsgId }),
+  });
+}
+
+/**
+ * Queue any work that must not overlap the workspace's engine turns (e.g. the
+ * /clean carry-over summary). Same rules as `enqueueEngineTurn`; `start`
+ * receives the "Queued" status message to take over, if one was posted.
+ */
+export async function enqueueWorkspaceTask(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  task: {
+    label: string;
+    statusMsgId?: number;
+    start: (statusMsgId?: number) => Promise<void>;
+  },
+): Promise<void> {
+  const userId = gramCtx.from?.id;
+  const chatId = gramCtx.chat?.id;
+  const workspace = resolveWorkspace(ctx, gramCtx);
+  if (!userId || !chatId || !workspace) return;
+
+  const key = queueKey(ctx.config.slug, workspace.key);
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = { active: null, pending: [] };
+    queues.set(key, queue);
+  }
+
+  const entry: QueueEntry = {
+    id: nextTurnId++,
+    label: toLabel(task.label),
+    chatId,
+    statusMsgId: task.statusMsgId,
+    enqueuedAt: Date.now(),
+    gramCtx,
+    start: task.start,
+  };
+
+  // Join the queue before any await: the running turn may finish meanwhile
+  // and drain (then drop) this queue object.
+  queue.pending.push(entry);
+  if (!queue.active) {
+    drain(ctx, key, workspace.key, queue);
+    return;
+  }
+
+  const position = queue.pending.length + 1;
+  const text = queuedText(position);
+  const replyMarkup = dropKeyboard(ctx, workspace.key, entry.id);
+  ctx.logger.info({ userId, position, turnId: entry.id }, "Message queued");
+  if (entry.statusMsgId !== undefined) {
+    try {
+      await gramCtx.api.editMessageText(chatId, entry.statusMsgId, text, {
+        parse_mode: "Markdown",
+        reply_markup: replyMarkup,
+      });
+    } catch {
+      // Ignore edit errors
+    }
+    return;
+  }
+  const statusMsg = await gramCtx.reply(text, {
+    parse_mode: "Markdown",
+    reply_markup: replyMarkup,
+  });
+  if (queue.pending.includes(entry)) {
+    entry.statusMsgId = statusMsg.message_id;
+    return;
+  }
+  // Started (with its own status message) or dropped while we replied
+  try {
+    await gramCtx.api.deleteMessage(chatId, statusMsg.message_id);
+  } catch {
+    // Ignore delete errors
+  }
+}
+
+/**
+ * Return the running turn and the waiting ones (in order) for a workspace.
+ */
+export function getQueue(
+  slug: string,
+  workspaceKey: string,
+): { active: QueuedTurn | null; pending: QueuedTurn[] } {
+  const queue = queues.get(queueKey(slug, workspaceKey));
+  if (!queue) return { active: null, pending: [] };
+  return {
+    active: queue.active ? toPublic(queue.active) : null,
+    pending: queue.pending.map(toPublic),
+  };
+}
+
+/**
+ * Remove waiting turns from a workspace's queue. Drops every waiting turn when
+ * `id` is omitted. The running turn is never affected (use /stop for that).
+ * Returns the dropped turns so the caller can update their status messages.
+ */
+export function dropQueued(
+  ctx: ProjectContext,
+  workspaceKey: string,
+  id?: number,
+): QueuedTurn[] {
+  const queue = queues.get(queueKey(ctx.config.slug, workspaceKey));
+  if (!queue) return [];
+
+  const dropped = queue.pending.filter((e) => id === undefined || e.id === id);
+  queue.pending = queue.pending.filter((e) => !dropped.includes(e));
+  if (dropped.length > 0) void refreshPositions(ctx, workspaceKey, queue);
+  return dropped.map(toPublic);
+}
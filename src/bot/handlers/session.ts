@@ -1,7 +1,14 @@
+import type { Context } from "grammy";
 import type { SessionMode } from "../../config.js";
 import type { EngineAdapter } from "../../engine/types.js";
+import type { ProjectContext } from "../../types.js";
+import { readSessionData, type SessionData } from "../../user/setup.js";
+import { resetSession } from "../commands/session.js";
 
-function resolveEffectiveMode(
+/**
+ * Session mode actually used: `true` resolves to the adapter's default.
+ */
+export function resolveEffectiveMode(
   mode: SessionMode,
   engine: EngineAdapter,
 ): "user" | "shared" | false {
@@ -25,3 +32,65 @@ export function shouldLoadSessionFromUserDir(
 
   return engine.sessionCapabilities.sharedContinuationRequiresMarker;
 }
+
+/** "45m", "3h", "2d" — coarse, for user-facing notices. */
+function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.floor(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Why a saved session should be rotated under the engine.sessionTtl /
+ * engine.sessionIdleTimeout policy, or undefined when it can be continued.
+ */
+export function sessionExpiryReason(
+  data: SessionData | null,
+  policy: { ttlMs?: number; idleTimeoutMs?: number },
+  now = Date.now(),
+): string | undefined {
+  if (!data?.currentSessionId) return undefined;
+  if (policy.idleTimeoutMs !== undefined && data.lastMessageAt) {
+    const idle = now - new Date(data.lastMessageAt).getTime();
+    if (idle > policy.idleTimeoutMs) return `idle ${formatDuration(idle)}`;
+  }
+  if (policy.ttlMs !== undefined && data.startedAt) {
+    const age = now - new Date(data.startedAt).getTime();
+    if (age > policy.ttlMs) return `started ${formatDuration(age)} ago`;
+  }
+  return undefined;
+}
+
+/**
+ * Start a fresh session when the user's current one expired (too old or idle
+ * too long). Runs before every engine turn, so text, voice, photo and
+ * document messages follow the same policy; the user is told why.
+ */
+export async function rotateExpiredSession(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  userDir: string,
+): Promise<void> {
+  const { config, logger } = ctx;
+  if (config.engineSession === false) return;
+  if (
+    config.engineSessionTtlMs === undefined &&
+    config.engineSessionIdleTimeoutMs === undefined
+  ) {
+    return;
+  }
+
+  const reason = sessionExpiryReason(await readSessionData(userDir), {
+    ttlMs: config.engineSessionTtlMs,
+    idleTimeoutMs: config.engineSessionIdleTimeoutMs,
+  });
+  if (!reason) return;
+
+  logger.info({ userId: gramCtx.from?.id, reason }, "Session expired");
+  await gramCtx.reply(`_Starting a fresh session (previous one ${reason})._`, {
+    parse_mode: "Markdown",
+  });
+  await resetSession(ctx, gramCtx, { silent: true });
+}
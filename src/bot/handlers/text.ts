@@ -1,19 +1,14 @@
-import { join, resolve } from "node:path";
 import type { Context } from "grammy";
 import { createAgent, getSkillsDirs } from "../../agent/index.js";
 import { resolveContext } from "../../context/resolver.js";
 import { getDefaultEngineModel } from "../../default-models.js";
 import { sendChunkedResponse } from "../../telegram/chunker.js";
-import { sendDownloadFiles } from "../../telegram/fileSender.js";
 import type { ProjectContext } from "../../types.js";
-import {
-  ensureUserSetup,
-  getDownloadsPath,
-  getSessionId,
-  saveSessionId,
-} from "../../user/setup.js";
+import { ensureUserSetup } from "../../user/setup.js";
 import { resolveCommandPath, resolveSkillEntry } from "../commands/loader.js";
-import { shouldLoadSessionFromUserDir } from "./session.js";
+import { stripBotMention } from "../middleware/group.js";
+import { enqueueEngineTurn } from "./queue.js";
+import { resolveWorkspace } from "./workspace.js";
 
 /**
  * Returns a handler for text messages.
@@ -38,10 +33,10 @@ export function createTextHandler(
     text: string,
     existingStatusMsgId?: number,
   ): Promise<void> {
-    const userId = gramCtx.from?.id;
-    if (!userId) return;
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!workspace) return;
 
-    const userDir = resolve(join(config.dataDir, String(userId)));
+    const userDir = workspace.dir;
 
     await ensureUserSetup(userDir);
 
@@ -50,95 +45,11 @@ export function createTextHandler(
       return;
     }
 
-    const shouldLoadSession = shouldLoadSessionFromUserDir(
-      config.engineSession,
-      ctx.engine,
-    );
-    const sessionId = shouldLoadSession ? await getSessionId(userDir) : null;
-    logger.debug({ sessionId: sessionId || "new" }, "Session");
-
-    let statusMsgId: number;
-    if (existingStatusMsgId !== undefined) {
-      statusMsgId = existingStatusMsgId;
-      try {
-        await gramCtx.api.editMessageText(
-          gramCtx.chat!.id,
-          statusMsgId,
-          "_Processing..._",
-          { parse_mode: "Markdown" },
-        );
-      } catch {
-        // Ignore edit errors
-      }
-    } else {
-      const statusMsg = await gramCtx.reply("_Processing..._", {
-        parse_mode: "Markdown",
-      });
-      statusMsgId = statusMsg.message_id;
-    }
-
-    let lastProgressUpdate = Date.now();
-    let lastProgressText = "Processing...";
-
-    const onProgress = async (message: string) => {
-      const now = Date.now();
-      if (now - lastProgressUpdate > 2000 && message !== lastProgressText) {
-        lastProgressUpdate = now;
-        lastProgressText = message;
-        try {
-          await gramCtx.api.editMessageText(
-            gramCtx.chat!.id,
-            statusMsgId,
-            `_${message}_`,
-            { parse_mode: "Markdown" },
-          );
-        } catch {
-          // Ignore edit errors
-        }
-      }
-    };
-
-    const downloadsPath = getDownloadsPath(userDir);
-
-    logger.info("Executing engine query");
-    const result = await ctx.engine.execute(
-      {
-        prompt: text,
-        gramCtx,
-        userDir,
-        downloadsPath,
-        sessionId,
-        onProgress,
-      },
-      ctx,
-    );
-    logger.info(
-      {
-        success: result.success,
-        error: result.error,
-        response: result.output?.slice(0, 200),
-      },
-      "Engine result",
-    );
-
-    try {
-      await gramCtx.api.deleteMessage(gramCtx.chat!.id, statusMsgId);
-    } catch {
-      // Ignore delete errors
-    }
-
-    if (config.engineSession !== false && result.sessionId) {
-      await saveSessionId(userDir, result.sessionId);
-      logger.debug({ sessionId: result.sessionId }, "Session saved");
-    }
-
-    const parsed = ctx.engine.parse(result);
-    await sendChunkedResponse(gramCtx, parsed.text);
-
-    const filesSent = await sendDownloadFiles(gramCtx, userDir, ctx);
-    if (filesSent > 0) {
-      logger.info({ filesSent }, "Sent download files to user");
-    }
+    await enqueueEngineTurn(ctx, gramCtx, {
+      prompt: text,
+      userDir,
+      statusMsgId: existingStatusMsgId,
+    });
   }
 
   function flush(userId: number): void {
@@ -155,7 +66,8 @@ export function createTextHandler(
 
   return async (gramCtx: Context): Promise<void> => {
     const userId = gramCtx.from?.id;
-    const messageText = gramCtx.message?.text;
+    const rawText = gramCtx.message?.text;
+    const messageText = rawText && stripBotMention(gramCtx, rawText);
     const messageId = gramCtx.message?.message_id;
 
     if (!userId || !messageText) {
@@ -205,7 +117,7 @@ export function createTextHandler(
                 ? undefined
                 : (getDefaultEngineModel(config.engine) ?? "engine-defaults"),
             });
-            const agent = createAgent(ctx);
+            const agent = createAgent(ctx, gramCtx);
             // Cache-bust on every dispatch call
             const mod = await import(`${filePath}?t=${Date.now()}`);
             const result = await mod.default({
@@ -248,7 +160,7 @@ export function createTextHandler(
               ? `${skillEntry.skillPrompt}\n\nUser input: ${args.join(" ")}`
               : skillEntry.skillPrompt;
 
-          const agent = createAgent(ctx);
+          const agent = createAgent(ctx, gramCtx);
           const statusMsg = await gramCtx.reply("_Processing..._", {
             parse_mode: "Markdown",
           });
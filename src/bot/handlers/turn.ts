@@ -0,0 +1,389 @@
+import type { Context } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { EngineResult, ParsedResponse } from "../../engine/types.js";
+import { sendChunkedResponse } from "../../telegram/chunker.js";
+import { sendDownloadFiles } from "../../telegram/fileSender.js";
+import { createMessageStreamer } from "../../telegram/streamer.js";
+import {
+  appendTranscript,
+  type TranscriptEntry,
+} from "../../transcript/store.js";
+import type { ProjectContext } from "../../types.js";
+import { checkBudget, recordUsage } from "../../usage/budget.js";
+import { formatCost, formatTokens } from "../../usage/store.js";
+import {
+  getDownloadsPath,
+  getSessionId,
+  readSessionData,
+  saveCarryOver,
+  saveSessionId,
+} from "../../user/setup.js";
+import { createCheckpoint, snapshotTree } from "../commands/git/checkpoint.js";
+import { isGitRepo } from "../commands/git/exec.js";
+import { resolveGitCwd } from "../commands/git/worktree.js";
+import { resolveMode } from "../commands/mode.js";
+import { createToolApprover } from "./approval.js";
+import {
+  collectRunChanges,
+  type RunChanges,
+  sendChangeSummary,
+} from "./changes.js";
+import { releaseRun, trackRun } from "./inflight.js";
+import {
+  rotateExpiredSession,
+  shouldLoadSessionFromUserDir,
+} from "./session.js";
+import { resolveWorkspace } from "./workspace.js";
+
+export interface EngineTurnOptions {
+  /** Prompt sent to the engine (uploads already referenced by the caller). */
+  prompt: string;
+  /** Absolute path to the user's data directory (already set up). */
+  userDir: string;
+  /** Reuse an existing status message instead of sending a new one. */
+  statusMsgId?: number;
+  /** Markdown text shown on the status message while the engine starts. */
+  statusText?: string;
+  /** Prefix for the error reply when the turn fails unexpectedly. */
+  errorPrefix?: string;
+  /** Names of the files uploaded with the prompt (for the transcript). */
+  uploads?: string[];
+}
+
+/**
+ * One-line usage footer appended to replies when commands.usage.footer is on.
+ * Returns undefined when the engine reported no usage.
+ */
+function usageFooter(parsed: ParsedResponse): string | undefined {
+  const parts: string[] = [];
+  if (parsed.costUsd !== undefined) parts.push(formatCost(parsed.costUsd));
+  if (parsed.inputTokens !== undefined || parsed.outputTokens !== undefined) {
+    parts.push(
+      `${formatTokens(parsed.inputTokens ?? 0)} in / ${formatTokens(parsed.outputTokens ?? 0)} out`,
+    );
+  }
+  return parts.length > 0 ? `_${parts.join(" · ")}_` : undefined;
+}
+
+/** First line of the prompt, shortened: names the checkpoint in /undo. */
+function checkpointLabel(prompt: string): string {
+  const line = prompt.trim().split("\n")[0].replace(/\s+/g, " ");
+  return line.length > 72 ? `${line.slice(0, 71)}…` : line || "(no text)";
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Inline keyboard attached to the status message of a running engine call.
+ */
+export function stopKeyboard(workspaceKey: string): InlineKeyboard {
+  return new InlineKeyboard().text("⏹ Stop", `st:${workspaceKey}`);
+}
+
+/**
+ * Run one engine call on behalf of a Telegram user and deliver the outcome.
+ *
+ * Shared by the text, voice, photo and document handlers: manages the status
+ * message (with its Stop button), progress updates, session persistence,
+ * the chunked reply and files dropped in the downloads folder.
+ *
+ * Never throws: unexpected failures are logged and reported to the user.
+ * Handlers go through `enqueueEngineTurn` rather than calling it directly,
+ * so a user's messages reach the engine one at a time.
+ */
+export async function runEngineTurn(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  options: EngineTurnOptions,
+): Promise<void> {
+  const { config, logger } = ctx;
+  const { prompt, userDir } = options;
+  const userId = gramCtx.from?.id;
+  const chatId = gramCtx.chat?.id;
+  const workspace = resolveWorkspace(ctx, gramCtx);
+  if (!userId || !chatId || !workspace) return;
+  const receivedAt = new Date().toISOString();
+
+  try {
+    const refusal = await checkBudget(ctx, gramCtx);
+    if (refusal) {
+      if (options.statusMsgId !== undefined) {
+        await gramCtx.api
+          .editMessageText(chatId, options.statusMsgId, refusal)
+          .catch(() => gramCtx.reply(refusal));
+      } else {
+        await gramCtx.reply(refusal);
+      }
+      return;
+    }
+
+    await rotateExpiredSession(ctx, gramCtx, userDir);
+
+    const shouldLoadSession = shouldLoadSessionFromUserDir(
+      config.engineSession,
+      ctx.engine,
+    );
+    const sessionId = shouldLoadSession ? await getSessionId(userDir) : null;
+    logger.debug({ sessionId: sessionId || "new" }, "Session");
+
+    // Summary left by /clean (commands.clean.carryOver); dropped once the
+    // engine has answered with it.
+    const carryOver =
+      config.engineSession !== false
+        ? (await readSessionData(userDir))?.carryOver
+        : undefined;
+    const enginePrompt = carryOver
+      ? `Summary of the previous session, for context:\n\n${carryOver}\n\n---\n\n${prompt}`
+      : prompt;
+
+    const replyMarkup = config.commands.stop.enabled
+      ? stopKeyboard(workspace.key)
+      : undefined;
+    const statusText = options.statusText ?? "_Processing..._";
+
+    let statusMsgId: number;
+    if (options.statusMsgId !== undefined) {
+      statusMsgId = options.statusMsgId;
+      try {
+        await gramCtx.api.editMessageText(chatId, statusMsgId, statusText, {
+          parse_mode: "Markdown",
+          reply_markup: replyMarkup,
+        });
+      } catch {
+        // Ignore edit errors
+      }
+    } else {
+      const statusMsg = await gramCtx.reply(statusText, {
+        parse_mode: "Markdown",
+        reply_markup: replyMarkup,
+      });
+      statusMsgId = statusMsg.message_id;
+    }
+
+    let lastProgressUpdate = Date.now();
+    let lastProgressText = "Processing...";
+    // Latest progress line from the engine, throttled or not; reported on timeout
+    let lastProgressLine: string | undefined;
+
+    const onProgress = async (message: string) => {
+      lastProgressLine = message;
+      const now = Date.now();
+      if (now - lastProgressUpdate > 2000 && message !== lastProgressText) {
+        lastProgressUpdate = now;
+        lastProgressText = message;
+        try {
+          await gramCtx.api.editMessageText(
+            chatId,
+            statusMsgId,
+            `_${message}_`,
+            {
+              parse_mode: "Markdown",
+              reply_markup: replyMarkup,
+            },
+          );
+        } catch {
+          // Ignore edit errors
+        }
+      }
+    };
+
+    // engine.streaming: partial assistant text goes into its own message
+    const streamer = config.engineStreaming
+      ? createMessageStreamer(gramCtx)
+      : undefined;
+
+    const downloadsPath = getDownloadsPath(userDir);
+    const mode = await resolveMode(ctx, userDir);
+    // commands.git.worktrees: the engine works in the workspace's worktree
+    const runCwd = await resolveGitCwd(ctx, gramCtx);
+    const runCtx: ProjectContext =
+      runCwd === config.cwd
+        ? ctx
+        : { ...ctx, config: { ...config, cwd: runCwd } };
+    const controller = trackRun(config.slug, workspace.key);
+
+    logger.info({ mode }, "Executing engine query");
+    const startedAt = Date.now();
+    const trackChanges =
+      config.commands.git.enabled && config.commands.git.changeSummary;
+    let result: EngineResult;
+    // Snapshot of the project before the run: checkpoint for /undo
+    // (commands.undo) and base of the change summary (commands.git)
+    let before: string | undefined;
+    try {
+      if (
+        (config.commands.undo.enabled || trackChanges) &&
+        (await isGitRepo(runCwd))
+      ) {
+        try {
+          before = await snapshotTree(runCtx.config);
+          if (config.commands.undo.enabled) {
+            await createCheckpoint(
+              runCtx.config,
+              checkpointLabel(prompt),
+              config.commands.undo.keep,
+              before,
+            );
+          }
+        } catch (err) {
+          logger.warn({ err }, "Failed to snapshot the project");
+        }
+      }
+      result = await ctx.engine.execute(
+        {
+          prompt: enginePrompt,
+          gramCtx,
+          userDir,
+          downloadsPath,
+          sessionId,
+          onProgress,
+          onPartialText: streamer ? (text) => streamer.update(text) : undefined,
+          signal: controller.signal,
+          mode,
+          approve: config.engineApprovals.enabled
+            ? createToolApprover(ctx, gramCtx, userDir, controller.signal)
+            : undefined,
+        },
+        runCtx,
+      );
+    } finally {
+      releaseRun(config.slug, workspace.key, controller);
+    }
+    logger.info(
+      {
+        success: result.success,
+        aborted: result.aborted,
+        timedOut: result.timedOut,
+        error: result.error,
+        response: result.output?.slice(0, 200),
+      },
+      "Engine result",
+    );
+
+    await recordUsage(ctx, userId, result);
+
+    try {
+      await gramCtx.api.deleteMessage(chatId, statusMsgId);
+    } catch {
+      // Ignore delete errors
+    }
+
+    const reply: TranscriptEntry = {
+      ts: new Date().toISOString(),
+      role: "assistant",
+      text: result.output.trim(),
+      engine: result.fallbackEngine ?? config.engine,
+      model: result.fallbackEngine ? undefined : config.engineModel,
+      status: result.aborted
+        ? "stopped"
+        : result.timedOut
+          ? "timed out"
+          : result.success
+            ? "ok"
+            : "error",
+    };
+
+    if (result.aborted) {
+      // Leave session.json untouched: the next message continues where the
+      // engine was interrupted (for engines that persisted the session).
+      // Streamed text already shows the partial output.
+      await streamer?.finish();
+      const partial = streamer?.started ? "" : result.output.trim();
+      await gramCtx.reply(
+        partial ? "_Stopped. Partial output:_" : "_Stopped._",
+        { parse_mode: "Markdown" },
+      );
+      if (partial) await sendChunkedResponse(gramCtx, partial);
+    } else if (result.timedOut) {
+      // Same as a stop: keep the session so the user can ask to resume.
+      const lines = [
+        `⏱ The engine timed out after ${formatElapsed(Date.now() - startedAt)} and was stopped.`,
+      ];
+      if (lastProgressLine) lines.push(`Last progress: ${lastProgressLine}`);
+      await streamer?.finish();
+      const partial = streamer?.started ? "" : result.output.trim();
+      if (partial) lines.push("Partial output:");
+      await gramCtx.reply(lines.join("\n"));
+      if (partial) await sendChunkedResponse(gramCtx, partial);
+    } else {
+      if (config.engineSession !== false && result.sessionId) {
+        await saveSessionId(userDir, result.sessionId, prompt);
+        logger.debug({ sessionId: result.sessionId }, "Session saved");
+      }
+      if (carryOver && result.success) await saveCarryOver(userDir, undefined);
+
+      const parsed = ctx.engine.parse(result);
+      reply.text = parsed.text;
+      const footer = config.commands.usage.footer
+        ? usageFooter(parsed)
+        : undefined;
+      const notes = [
+        result.success &&
+          result.fallbackEngine &&
+          `_Answered by ${result.fallbackEngine} (fallback for ${config.engine})_`,
+        footer,
+      ].filter(Boolean);
+      const text =
+        notes.length > 0
+          ? `${parsed.text}\n\n${notes.join("\n")}`
+          : parsed.text;
+      if (streamer && result.success) {
+        // Replace the streamed text with the final, Markdown-rendered answer
+        await streamer.finish(text);
+      } else {
+        await streamer?.finish();
+        await sendChunkedResponse(gramCtx, text);
+      }
+    }
+
+    let changes: RunChanges | undefined;
+    if (trackChanges && before) {
+      try {
+        changes = await collectRunChanges(runCtx.config, before);
+      } catch (err) {
+        logger.warn({ err }, "Failed to collect the run's changes");
+      }
+    }
+    if (changes) await sendChangeSummary(gramCtx, changes);
+
+    const filesSent = await sendDownloadFiles(gramCtx, userDir, ctx);
+    if (filesSent.length > 0) {
+      logger.info(
+        { filesSent: filesSent.length },
+        "Sent download files to user",
+      );
+      reply.files = filesSent;
+    }
+
+    try {
+      await appendTranscript(userDir, [
+        {
+          ts: receivedAt,
+          role: "user",
+          text: prompt,
+          user: gramCtx.from?.username ?? gramCtx.from?.first_name,
+          files: options.uploads,
+        },
+        reply,
+      ]);
+    } catch (err) {
+      logger.warn({ err }, "Failed to record transcript");
+    }
+  } catch (error) {
+    logger.error({ error }, "Engine turn error");
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    try {
+      await gramCtx.reply(
+        `${options.errorPrefix ?? "An error occurred"}: ${errorMessage}`,
+      );
+    } catch {
+      // Chat may be unreachable — nothing else to do
+    }
+  }
+}
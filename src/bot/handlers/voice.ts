@@ -1,20 +1,13 @@
 import { exec } from "node:child_process";
 import { unlink, writeFile } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { join } from "node:path";
 import { promisify } from "node:util";
 import type { Context } from "grammy";
-import { sendChunkedResponse } from "../../telegram/chunker.js";
-import { sendDownloadFiles } from "../../telegram/fileSender.js";
 import { transcribeAudio } from "../../transcription/whisper.js";
 import type { ProjectContext } from "../../types.js";
-import {
-  ensureUserSetup,
-  getDownloadsPath,
-  getSessionId,
-  getUploadsPath,
-  saveSessionId,
-} from "../../user/setup.js";
-import { shouldLoadSessionFromUserDir } from "./session.js";
+import { ensureUserSetup, getUploadsPath } from "../../user/setup.js";
+import { enqueueEngineTurn } from "./queue.js";
+import { resolveWorkspace } from "./workspace.js";
 
 const execAsync = promisify(exec);
 
@@ -57,7 +50,8 @@ export function createVoiceHandler(ctx: ProjectContext) {
     const userId = gramCtx.from?.id;
     const voice = gramCtx.message?.voice;
 
-    if (!userId || !voice) {
+    const workspace = resolveWorkspace(ctx, gramCtx);
+    if (!userId || !voice || !workspace) {
       return;
     }
 
@@ -66,7 +60,7 @@ export function createVoiceHandler(ctx: ProjectContext) {
       "Voice message received",
     );
 
-    const userDir = resolve(join(config.dataDir, String(userId)));
+    const userDir = workspace.dir;
 
     try {
       await ensureUserSetup(userDir);
@@ -110,31 +104,6 @@ export function createVoiceHandler(ctx: ProjectContext) {
         return;
       }
 
-      // Optionally show transcription to user
-      if (config.transcription.showTranscription) {
-        try {
-          await gramCtx.api.editMessageText(
-            gramCtx.chat!.id,
-            statusMsg.message_id,
-            `_Transcribed: "${transcription.text}"_\n\n_Processing with Claude..._`,
-            { parse_mode: "Markdown" },
-          );
-        } catch {
-          // Ignore edit errors
-        }
-      } else {
-        try {
-          await gramCtx.api.editMessageText(
-            gramCtx.chat!.id,
-            statusMsg.message_id,
-            "_Processing..._",
-            { parse_mode: "Markdown" },
-          );
-        } catch {
-          // Ignore edit errors
-        }
-      }
-
       // Clean up temporary files
       try {
         await unlink(ogaPath);
@@ -143,68 +112,22 @@ export function createVoiceHandler(ctx: ProjectContext) {
         // Ignore cleanup errors
       }
 
-      const shouldLoadSession = shouldLoadSessionFromUserDir(
-        config.engineSession,
-        ctx.engine,
-      );
-      const sessionId = shouldLoadSession ? await getSessionId(userDir) : null;
-      let lastProgressUpdate = Date.now();
-      let lastProgressText = "Processing...";
-
-      const onProgress = async (message: string) => {
-        const now = Date.now();
-        if (now - lastProgressUpdate > 2000 && message !== lastProgressText) {
-          lastProgressUpdate = now;
-          lastProgressText = message;
-          try {
-            await gramCtx.api.editMessageText(
-              gramCtx.chat!.id,
-              statusMsg.message_id,
-              `_${message}_`,
-              { parse_mode: "Markdown" },
-            );
-          } catch {
-            // Ignore edit errors
-          }
-        }
-      };
-
-      const downloadsPath = getDownloadsPath(userDir);
-
       logger.info(
         { transcription: transcription.text },
-        "Executing engine query",
+        "Voice message transcribed",
       );
-      const result = await ctx.engine.execute(
-        {
-          prompt: transcription.text,
-          gramCtx,
-          userDir,
-          downloadsPath,
-          sessionId,
-          onProgress,
-        },
-        ctx,
-      );
-
-      try {
-        await gramCtx.api.deleteMessage(gramCtx.chat!.id, statusMsg.message_id);
-      } catch {
-        // Ignore delete errors
-      }
-
-      const parsed = ctx.engine.parse(result);
-
-      if (config.engineSession !== false && parsed.sessionId) {
-        await saveSessionId(userDir, parsed.sessionId);
-      }
-
-      await sendChunkedResponse(gramCtx, parsed.text);
 
-      const filesSent = await sendDownloadFiles(gramCtx, userDir, ctx);
-      if (filesSent > 0) {
-        logger.info({ filesSent }, "Sent download files to user");
-      }
+      // Optionally show transcription to user.
+      // Runs after the user's earlier messages; resolves once queued.
+      await enqueueEngineTurn(ctx, gramCtx, {
+        prompt: transcription.text,
+        userDir,
+        statusMsgId: statusMsg.message_id,
+        statusText: config.transcription.showTranscription
+          ? `_Transcribed: "${transcription.text}"_\n\n_Processing..._`
+          : "_Processing..._",
+        errorPrefix: "An error occurred processing the voice message",
+      });
     } catch (error) {
       logger.error({ error }, "Voice handler error");
       const errorMessage =
@@ -0,0 +1,54 @@
+import { join, resolve } from "node:path";
+import type { Context } from "grammy";
+import type { ProjectContext } from "../../types.js";
+
+/**
+ * Where a conversation lives: its session, uploads, downloads, transcripts,
+ * queue and in-flight run.
+ *
+ * - Private chat: one workspace per user, `{dataDir}/{userId}`.
+ * - Group: one workspace per forum topic (or for the whole chat when it has
+ *   no topics), shared by its members: `{dataDir}/chats/{chatId}[_{threadId}]`.
+ */
+export interface Workspace {
+  /** Queue / in-flight key: the user id in private chats, `g<chatId>[_<threadId>]` in groups. */
+  key: string;
+  /** Absolute data directory. */
+  dir: string;
+}
+
+/** True for groups and supergroups (including forums). */
+export function isGroupChat(gramCtx: Context): boolean {
+  const type = gramCtx.chat?.type;
+  return type === "group" || type === "supergroup";
+}
+
+/**
+ * Workspace of the update's chat (and forum topic). Works for messages and
+ * for callback queries on the bot's own messages.
+ * Undefined when the update has no sender or chat.
+ */
+export function resolveWorkspace(
+  ctx: ProjectContext,
+  gramCtx: Context,
+): Workspace | undefined {
+  const userId = gramCtx.from?.id;
+  const chatId = gramCtx.chat?.id;
+  if (!userId || !chatId) return undefined;
+
+  if (!isGroupChat(gramCtx)) {
+    return {
+      key: String(userId),
+      dir: resolve(join(ctx.config.dataDir, String(userId))),
+    };
+  }
+
+  const msg = gramCtx.msg;
+  const threadId = msg?.is_topic_message ? msg.message_thread_id : undefined;
+  const name =
+    threadId === undefined ? String(chatId) : `${chatId}_${threadId}`;
+  return {
+    key: `g${name}`,
+    dir: resolve(join(ctx.config.dataDir, "chats", name)),
+  };
+}
@@ -1,23 +1,56 @@
 import type { Context, NextFunction } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { readApprovedUserIds } from "../../access/store.js";
 import type { ProjectContext } from "../../types.js";
+import { isGroupChat } from "../handlers/workspace.js";
 
 const DENIED_MSG =
   "Sorry, you are not authorized to use this bot.\n" +
   "Contact the administrator to request access.";
 
+const REQUEST_MSG =
+  "Sorry, you are not authorized to use this bot.\n" +
+  "Tap the button below to ask an admin for access.";
+
+/** Reply to an unauthorized user, offering a request button when enabled. */
+async function deny(ctx: ProjectContext, gramCtx: Context): Promise<void> {
+  if (!ctx.config.access.allowRequests) {
+    await gramCtx.reply(DENIED_MSG);
+    return;
+  }
+  await gramCtx.reply(REQUEST_MSG, {
+    reply_markup: new InlineKeyboard().text("Request access", "ac:req"),
+  });
+}
+
 export function createAuthMiddleware(ctx: ProjectContext) {
   return async (gramCtx: Context, next: NextFunction): Promise<void> => {
-    const { allowedUserIds, dangerouslyAllowUnrestrictedAccess } =
-      ctx.config.access;
+    const {
+      allowedUserIds,
+      allowedChatIds,
+      dangerouslyAllowUnrestrictedAccess,
+      allowRequests,
+    } = ctx.config.access;
     const userId = gramCtx.from?.id;
+    const chatId = gramCtx.chat?.id;
 
-    // allowedUserIds takes precedence over dangerouslyAllowUnrestrictedAccess
-    if (allowedUserIds.length > 0) {
-      if (userId && allowedUserIds.includes(userId)) {
+    // Allow lists take precedence over dangerouslyAllowUnrestrictedAccess.
+    // Listed users, admins (and users approved from Telegram) may use the
+    // bot anywhere; members of a listed group only in that group.
+    if (allowedUserIds.length > 0 || allowedChatIds.length > 0) {
+      const userAllowed =
+        !!userId &&
+        (allowedUserIds.includes(userId) ||
+          isAdmin(ctx, userId) ||
+          (allowRequests &&
+            (await readApprovedUserIds(ctx.config.dataDir)).includes(userId)));
+      const chatAllowed =
+        !!chatId && isGroupChat(gramCtx) && allowedChatIds.includes(chatId);
+      if (userAllowed || chatAllowed) {
         await next();
         return;
       }
-      await gramCtx.reply(DENIED_MSG);
+      await deny(ctx, gramCtx);
       return;
     }
 
@@ -30,3 +63,12 @@ export function createAuthMiddleware(ctx: ProjectContext) {
     await gramCtx.reply(DENIED_MSG);
   };
 }
+
+/**
+ * True when the user is listed in access.adminUserIds for this project.
+ */
+export function isAdmin(ctx: ProjectContext, userId: number | undefined) {
+  return (
+    userId !== undefined && ctx.config.access.adminUserIds.includes(userId)
+  );
+}
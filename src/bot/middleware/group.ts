@@ -0,0 +1,75 @@
+import type { Context, NextFunction } from "grammy";
+import { isGroupChat } from "../handlers/workspace.js";
+
+/** `/cmd` or `/cmd@thisbot`; commands for other bots are not ours. */
+function isOwnCommand(gramCtx: Context, text: string): boolean {
+  const match = text.match(/^\/\w+(?:@(\w+))?/);
+  if (!match) return false;
+  const target = match[1];
+  return (
+    !target || target.toLowerCase() === gramCtx.me?.username?.toLowerCase()
+  );
+}
+
+function mentionsBot(gramCtx: Context): boolean {
+  const msg = gramCtx.message;
+  const username = gramCtx.me?.username;
+  if (!msg) return false;
+  const text = msg.text ?? msg.caption ?? "";
+  const entities = msg.entities ?? msg.caption_entities ?? [];
+  return entities.some((entity) => {
+    if (entity.type === "text_mention")
+      return entity.user.id === gramCtx.me?.id;
+    if (entity.type !== "mention" || !username) return false;
+    const mention = text.slice(entity.offset, entity.offset + entity.length);
+    return mention.toLowerCase() === `@${username.toLowerCase()}`;
+  });
+}
+
+function repliesToBot(gramCtx: Context): boolean {
+  const reply = gramCtx.message?.reply_to_message;
+  // In forums every message "replies" to the topic's creation message
+  if (!reply || reply.forum_topic_created) return false;
+  return reply.from?.id === gramCtx.me?.id;
+}
+
+/**
+ * Remove the bot's @mention from a group message, so the engine gets the
+ * prompt only.
+ */
+export function stripBotMention(gramCtx: Context, text: string): string {
+  const username = gramCtx.me?.username;
+  if (!username || !isGroupChat(gramCtx)) return text;
+  return text
+    .replace(new RegExp(`@${username}\\b`, "gi"), "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * In groups the bot only reacts when addressed: commands, @mentions, replies
+ * to its messages and taps on its buttons. Everything else is ignored
+ * silently. Private chats are not affected.
+ *
+ * `debounceActiveUsers` lets the follow-up parts of a long message that
+ * Telegram split in several through.
+ */
+export function createGroupMiddleware(debounceActiveUsers: Set<number>) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    if (!isGroupChat(gramCtx) || gramCtx.callbackQuery) {
+      await next();
+      return;
+    }
+
+    const text = gramCtx.message?.text ?? gramCtx.message?.caption ?? "";
+    const userId = gramCtx.from?.id;
+    if (
+      isOwnCommand(gramCtx, text) ||
+      mentionsBot(gramCtx) ||
+      repliesToBot(gramCtx) ||
+      (userId !== undefined && debounceActiveUsers.has(userId))
+    ) {
+      await next();
+    }
+  };
+}
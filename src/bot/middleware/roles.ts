@@ -0,0 +1,110 @@
+import type { Context, NextFunction } from "grammy";
+import type { ResolvedProjectConfig } from "../../config.js";
+import type { ProjectContext } from "../../types.js";
+
+type AccessConfig = ResolvedProjectConfig["access"];
+
+/** Inline-button prefixes and the command whose permission they need. */
+const CALLBACK_COMMANDS: Record<string, string> = {
+  "r:": "reset",
+  "gc:": "git_clean",
+  "gd:": "git_diff",
+  "ch:d:": "git_diff",
+  "ch:r:": "git_clean",
+  "ch:y:": "git_clean",
+  "ch:c:": "git_commit",
+  "gl:r:": "git_commit",
+  "gl:y:": "git_commit",
+  "gl:": "git_log",
+  "gm:": "git_commit",
+  "gb:": "git_branch",
+  "wt:": "git_worktree",
+  "npm:": "npm",
+  "md:": "model",
+  "en:": "engine",
+  "st:": "stop",
+  "q:": "queue",
+  "ss:": "sessions",
+  "mo:": "mode",
+  "un:": "undo",
+};
+
+/**
+ * Role of the user: the admin role when listed there, otherwise the first
+ * role listing the user, otherwise `access.defaultRole`.
+ * Undefined when role-based access control is off.
+ */
+export function resolveRole(
+  access: AccessConfig,
+  userId: number | undefined,
+): string | undefined {
+  const { roles, defaultRole } = access;
+  if (!roles) return undefined;
+  if (userId === undefined) return defaultRole;
+  if (roles.admin?.users.includes(userId)) return "admin";
+  const listed = Object.entries(roles).find(([, role]) =>
+    role.users.includes(userId),
+  );
+  return listed?.[0] ?? defaultRole;
+}
+
+/** True when the role's deny list does not cover the command. */
+export function roleAllows(
+  access: AccessConfig,
+  role: string | undefined,
+  command: string,
+): boolean {
+  const deny = role ? access.roles?.[role]?.deny : undefined;
+  if (!deny) return true;
+  const name = command.toLowerCase();
+  return !deny.some((pattern) =>
+    pattern.endsWith("*")
+      ? name.startsWith(pattern.slice(0, -1).toLowerCase())
+      : name === pattern.toLowerCase(),
+  );
+}
+
+/** Command the update invokes: `/cmd[@bot] ...` or one of its inline buttons. */
+function requestedCommand(gramCtx: Context): string | undefined {
+  const data = gramCtx.callbackQuery?.data;
+  if (data) {
+    const prefix = Object.keys(CALLBACK_COMMANDS).find((p) =>
+      data.startsWith(p),
+    );
+    return prefix ? CALLBACK_COMMANDS[prefix] : undefined;
+  }
+  const text = gramCtx.message?.text ?? gramCtx.message?.caption ?? "";
+  return text.match(/^\/(\w+)(?:@\w+)?(?:\s|$)/)?.[1];
+}
+
+/**
+ * Refuse commands (and their inline buttons) the user's role denies.
+ * Plain messages always pass: every role may talk to the engine.
+ */
+export function createRoleMiddleware(ctx: ProjectContext) {
+  return async (gramCtx: Context, next: NextFunction): Promise<void> => {
+    const { access } = ctx.config;
+    const command = access.roles ? requestedCommand(gramCtx) : undefined;
+    if (!command) {
+      await next();
+      return;
+    }
+
+    const role = resolveRole(access, gramCtx.from?.id);
+    if (roleAllows(access, role, command)) {
+      await next();
+      return;
+    }
+
+    ctx.logger.info(
+      { userId: gramCtx.from?.id, role, command },
+      "Command denied by role",
+    );
+    const text = `Your role (${role}) does not allow /${command}.`;
+    if (gramCtx.callbackQuery) {
+      await gramCtx.answerCallbackQuery({ text });
+      return;
+    }
+    await gramCtx.reply(text);
+  };
+}
@@ -5,9 +5,10 @@ import { existsSync, readFileSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
 import { basename, dirname, extname, join, resolve } from "node:path";
 import { isCancel, outro, select } from "@clack/prompts";
-import type pino from "pino";
+import pino from "pino";
+import { abortAll } from "./bot/handlers/inflight.js";
 import { type BotHandle, startBot } from "./bot.js";
-import type { LoadedConfigResult } from "./config.js";
+import type { LoadedConfigResult, ResolvedProjectConfig } from "./config.js";
 import {
   resolveCustomEnvPaths,
   resolveProjectConfig,
@@ -26,13 +27,18 @@ import {
 } from "./crons/index.js";
 import { getDefaultEngineModel } from "./default-models.js";
 import { getAvailableEnginesFromCli } from "./engine/cli-available.js";
-import { getEngine } from "./engine/index.js";
+import { checkAllEngines, renderEngineHealthTable } from "./engine/health.js";
+import { createFallbackAdapter, getEngine } from "./engine/index.js";
+import { stopEngineProcesses } from "./engine/spawn.js";
 import type { EngineName } from "./engine/types.js";
 import { createProjectLogger, createStartupLogger } from "./logger.js";
 import type { ProjectContext } from "./types.js";
 
+/** Engines offered by `hal init` (custom and http need hand-written config). */
+type InitEngineName = Exclude<EngineName, "custom" | "http">;
+
 /** One default model per engine for the chosen project engine. */
-const DEFAULT_PROVIDER_MODEL: Record<EngineName, string> = {
+const DEFAULT_PROVIDER_MODEL: Record<InitEngineName, string> = {
   claude: "sonnet",
   copilot: "gpt-5-mini",
   codex: "gpt-5.2-codex",
@@ -42,7 +48,7 @@ const DEFAULT_PROVIDER_MODEL: Record<EngineName, string> = {
 };
 
 function getDefaultProviderModel(
-  engine: EngineName,
+  engine: InitEngineName,
   override?: string,
 ): string {
   return override ?? DEFAULT_PROVIDER_MODEL[engine];
@@ -52,7 +58,7 @@ const INIT_TEMPLATE_PATH = new URL("./init-template.yaml", import.meta.url);
 
 /** Build YAML config from the template file with placeholder substitution. */
 function buildYamlInitConfig(
-  engineName: EngineName,
+  engineName: InitEngineName,
   projectCwd: string,
   modelOverride?: string,
 ): string {
@@ -117,7 +123,7 @@ function _openFileInEditor(filePath: string, editor: string): void {
 // ─── CLI argument parsing ─────────────────────────────────────────────────────
 
 interface ParsedArgs {
-  command: "start" | "init" | "wiz";
+  command: "start" | "init" | "wiz" | "doctor";
   configDir: string;
   configFile?: string;
   /** Project cwd for wizard config. */
@@ -125,7 +131,7 @@ interface ParsedArgs {
   /** Project name for wizard config. */
   name?: string;
   /** Wizard prefill: only set when user passes --engine. */
-  engine?: EngineName;
+  engine?: InitEngineName;
   model?: string;
   apiKey?: string;
   /** Back-compat alias for apiKey. */
@@ -133,6 +139,8 @@ interface ParsedArgs {
   userId?: string;
   session?: string;
   reset?: boolean;
+  /** doctor: skip the dry-run prompt. */
+  quick?: boolean;
 }
 
 function showHelp(): void {
@@ -146,6 +154,7 @@ Commands:
   wiz             Interactive setup wizard (recommended for new users)
   init            Create hal.config.yaml non-interactively (deprecated — use wiz)
   start           Start the bots (default)
+  doctor          Check every engine: binary, version, auth, model, latency
 
 Options:
   --config <path>     Config directory, or explicit config file path (supported: .json, .jsonc, .yaml, .yml)
@@ -158,6 +167,7 @@ Options:
   --user-id <value>  Pre-fill Telegram user ID in wizard (skips that step)
   --session <mode>   Pre-fill session mode in wizard: true, false, shared, user
   --reset            Re-ask all wizard questions even if values already exist
+  --quick            doctor: skip the dry-run prompt (no auth/latency)
   --help, -h         Show this help message
 
 Examples:
@@ -169,6 +179,7 @@ Examples:
   npx @marcopeg/hal init --config ./workspace
   npx @marcopeg/hal
   npx @marcopeg/hal --config ./workspace
+  npx @marcopeg/hal doctor
 
 Configuration (hal.config.json):
   {
@@ -188,7 +199,7 @@ Configuration (hal.config.json):
 `);
 }
 
-const VALID_ENGINES: readonly EngineName[] = [
+const VALID_ENGINES: readonly InitEngineName[] = [
   "claude",
   "copilot",
   "codex",
@@ -237,14 +248,15 @@ function parseArgs(): ParsedArgs {
   let configFile: string | undefined;
   let projectCwd: string | undefined;
   let name: string | undefined;
-  let command: "start" | "init" | "wiz" = "start";
-  let engine: EngineName | undefined;
+  let command: "start" | "init" | "wiz" | "doctor" = "start";
+  let engine: InitEngineName | undefined;
   let model: string | undefined;
   let apiKey: string | undefined;
   let botKey: string | undefined;
   let userId: string | undefined;
   let session: string | undefined;
   let reset = false;
+  let quick = false;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -265,7 +277,7 @@ function parseArgs(): ParsedArgs {
     } else if (arg.startsWith("--name=")) {
       name = arg.slice(7);
     } else if (arg === "--engine" && args[i + 1]) {
-      const val = args[i + 1] as EngineName;
+      const val = args[i + 1] as InitEngineName;
       if (!VALID_ENGINES.includes(val)) {
         console.error(
           `Error: unknown engine "${val}". Valid engines: ${VALID_ENGINES.join(", ")}`,
@@ -275,7 +287,7 @@ function parseArgs(): ParsedArgs {
       engine = val;
       i++;
     } else if (arg.startsWith("--engine=")) {
-      const val = arg.slice(9) as EngineName;
+      const val = arg.slice(9) as InitEngineName;
       if (!VALID_ENGINES.includes(val)) {
         console.error(
           `Error: unknown engine "${val}". Valid engines: ${VALID_ENGINES.join(", ")}`,
@@ -310,6 +322,8 @@ function parseArgs(): ParsedArgs {
       session = arg.slice(10);
     } else if (arg === "--reset") {
       reset = true;
+    } else if (arg === "--quick") {
+      quick = true;
     } else if (arg === "--help" || arg === "-h") {
       showHelp();
       process.exit(0);
@@ -319,6 +333,8 @@ function parseArgs(): ParsedArgs {
       command = "init";
     } else if (arg === "start") {
       command = "start";
+    } else if (arg === "doctor") {
+      command = "doctor";
     }
   }
 
@@ -335,6 +351,7 @@ function parseArgs(): ParsedArgs {
     userId,
     session,
     reset,
+    quick,
   };
 }
 
@@ -349,7 +366,7 @@ const INIT_CONFIG_BASENAMES = [
 
 async function runInit(
   cwd: string,
-  engineName: EngineName,
+  engineName: InitEngineName,
   modelOverride?: string,
   options?: { showDeprecation?: boolean },
 ): Promise<void> {
@@ -532,11 +549,31 @@ async function runBotsForConfig(
       config.engineModel ??
       config.providerDefaultModel ??
       getDefaultEngineModel(config.engine);
-    const engine = getEngine(
+    const primary = getEngine(
       config.engine,
       config.engineCommand,
       effectiveModel,
+      { custom: config.customEngine, http: config.httpEngine },
     );
+    const engine =
+      config.engineFallback.length > 0
+        ? createFallbackAdapter(
+            config.engine,
+            primary,
+            config.engineFallback.map(({ name, command, model }) => {
+              const fallbackModel = model ?? getDefaultEngineModel(name);
+              return {
+                name,
+                adapter: getEngine(name, command, fallbackModel, {
+                  custom: config.customEngine,
+                  http: config.httpEngine,
+                }),
+                model: fallbackModel,
+              };
+            }),
+            logger,
+          )
+        : primary;
     return { config, logger, bootContext: { shellCache }, engine };
   });
 
@@ -615,6 +652,70 @@ function printConfigError(err: unknown): never {
   process.exit(1);
 }
 
+/**
+ * `hal doctor`: check every engine as the first active project would run it
+ * and print a table. Exits with 1 when that project's engine is not healthy.
+ */
+async function runDoctor(
+  configDir: string,
+  configFile: string | undefined,
+  quick: boolean,
+): Promise<void> {
+  let loaded: LoadedConfigResult;
+  try {
+    loaded = tryLoadMultiConfig(configDir, configFile);
+  } catch (err) {
+    printConfigError(err);
+  }
+  const { config: multiConfig } = loaded;
+
+  let config: ResolvedProjectConfig | undefined;
+  try {
+    validateProviderDefaultUniqueness(multiConfig);
+    const key = Object.keys(multiConfig.projects)
+      .sort()
+      .find((k) => multiConfig.projects[k].active !== false);
+    if (key) {
+      config = resolveProjectConfig(
+        key,
+        multiConfig.projects[key],
+        multiConfig.globals ?? {},
+        configDir,
+        multiConfig.context,
+        multiConfig.providers,
+      );
+    }
+  } catch (err) {
+    printConfigError(err);
+  }
+  if (!config) {
+    console.error("No active project in the configuration.");
+    process.exit(1);
+  }
+
+  const ctx: ProjectContext = {
+    config,
+    logger: pino({ level: "silent" }),
+    bootContext: { shellCache: {} },
+    engine: getEngine(config.engine, config.engineCommand, config.engineModel, {
+      custom: config.customEngine,
+      http: config.httpEngine,
+    }),
+  };
+
+  console.log(
+    `Checking engines for project "${config.name ?? config.slug}"${quick ? "" : " (with a dry-run prompt)"}...\n`,
+  );
+  const results = await checkAllEngines(ctx, {
+    dryRun: !quick,
+    onEngine: (name) => process.stdout.write(`  ${name}...\n`),
+  });
+  console.log(`\n${renderEngineHealthTable(results)}\n`);
+
+  const own = results.find((r) => r.engine === config.engine);
+  process.exit(own?.status === "ok" ? 0 : 1);
+}
+
 async function runStart(
   configDir: string,
   wizardPrefill: Record<string, unknown>,
@@ -811,6 +912,10 @@ async function runStart(
     await Promise.all(
       state.projectCronHandles.map((h) => h.stop().catch(() => {})),
     );
+    // Turns are fire-and-forget: stop their engines before exiting, or the
+    // detached process groups would keep running
+    abortAll();
+    await stopEngineProcesses();
     await Promise.all(state.botHandles.map((h) => h.stop().catch(() => {})));
     if (state.botHandles.length > 0) startupLogger.info("All bots stopped");
     process.exit(0);
@@ -836,8 +941,14 @@ async function main(): Promise<void> {
     userId,
     session,
     reset,
+    quick,
   } = parseArgs();
 
+  if (command === "doctor") {
+    await runDoctor(configDir, configFile, quick ?? false);
+    return;
+  }
+
   if (command === "wiz") {
     const { startWizard } = await import("./wizard/index.js");
     const shouldStart = await startWizard(
@@ -12,8 +12,14 @@ import { parse as parseEnv } from "dotenv";
 import stripJsonComments from "strip-json-comments";
 import { parse as parseYaml } from "yaml";
 import { z } from "zod";
+import { parseDuration } from "./crons/schedule.js";
 import { isCliAvailable } from "./engine/cli-available.js";
 import { getEngineSessionCapabilities } from "./engine/registry.js";
+import type {
+  CustomEngineConfig,
+  EngineMode,
+  HttpEngineConfig,
+} from "./engine/types.js";
 
 // ─── Zod helpers ──────────────────────────────────────────────────────────────
 
@@ -42,6 +48,8 @@ const EngineNameSchema = z.enum([
   "opencode",
   "cursor",
   "antigravity",
+  "custom",
+  "http",
 ]);
 
 const CodexEngineConfigSchema = z
@@ -75,6 +83,72 @@ const CopilotEngineConfigSchema = z
   .partial()
   .optional();
 
+const StringListSchema = z.array(z.string());
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Describes an arbitrary agent CLI for engine.name "custom". */
+const CustomEngineConfigSchema = z
+  .object({
+    /** Name shown in logs and progress messages (default: the command). */
+    displayName: z.string().optional(),
+    /** Argument template; supports {prompt}, {model}, {sessionId}, {cwd}. */
+    args: StringListSchema,
+    /** Args added when a model is set, e.g. ["--model", "{model}"]. */
+    modelArgs: StringListSchema.optional(),
+    /** Args used to check the CLI is installed (default: ["--version"]). */
+    versionArgs: StringListSchema.optional(),
+    session: z
+      .object({
+        mode: z.enum(["none", "shared", "user"]),
+        /** Args to continue the latest conversation (shared mode). */
+        continueArgs: StringListSchema.optional(),
+        /** Args to resume a conversation by id (user mode). */
+        resumeArgs: StringListSchema.optional(),
+      })
+      .optional(),
+    output: z
+      .object({
+        format: z.enum(["text", "jsonl"]),
+        /** jsonl: dotted path of the reply text (last match wins). */
+        textPath: z.string().optional(),
+        /** jsonl: dotted path of the session id. */
+        sessionPath: z.string().optional(),
+        /** text: regex whose first group captures the session id. */
+        sessionRegex: z
+          .string()
+          .refine(isValidRegex, {
+            message: "must be a valid regular expression",
+          })
+          .optional(),
+      })
+      .optional(),
+    skillsDir: z.string().optional(),
+    instructionsFile: z.string().optional(),
+  })
+  .optional();
+
+/** Direct LLM API settings for engine.name "http". */
+const HttpEngineConfigSchema = z
+  .object({
+    api: z.enum(["openai", "anthropic"]).default("openai"),
+    /** API root; defaults to the public OpenAI / Anthropic endpoint. */
+    baseUrl: z.string().optional(),
+    apiKey: z.string().optional(),
+    systemPrompt: z.string().optional(),
+    maxTokens: z.number().int().positive().optional(),
+    /** Past messages sent with each request. */
+    maxHistory: z.number().int().positive().optional(),
+  })
+  .optional();
+
 /** Resolved session mode: false = stateless, true = adapter default, "shared" = force shared, "user" = force per-user (rejected at boot for OpenCode/Copilot). */
 export type SessionMode = false | true | "shared" | "user";
 
@@ -82,6 +156,33 @@ const SessionSchema = z
   .union([z.boolean(), z.enum(["shared", "user"])])
   .optional();
 
+/** Duration such as "30m", "12h" or "7d" (see parseDuration). */
+const DurationSchema = z
+  .string()
+  .refine((value) => parseDuration(value) !== null, {
+    message: 'expected a duration such as "30m", "12h" or "7d"',
+  });
+
+/** Ask the Telegram user before risky tool calls (Claude permission prompt tool). */
+const ApprovalsConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    /** Deny automatically when nobody answers within this time. */
+    timeout: DurationSchema,
+  })
+  .partial()
+  .optional();
+
+/** Fallback entry: an engine name, or an engine with its own command/model. */
+const EngineFallbackSchema = z.union([
+  EngineNameSchema,
+  z.object({
+    name: EngineNameSchema,
+    command: z.string().optional(),
+    model: z.string().optional(),
+  }),
+]);
+
 const EngineConfigSchema = z
   .object({
     name: EngineNameSchema,
@@ -89,10 +190,25 @@ const EngineConfigSchema = z
     model: z.string(),
     session: SessionSchema,
     sessionMsg: z.string(),
+    /** Rotate a session on the next message once it is older than this. */
+    sessionTtl: DurationSchema,
+    /** Rotate a session on the next message after this long without messages. */
+    sessionIdleTimeout: DurationSchema,
     envFile: z.string().optional(),
+    /** Wall-clock limit for one engine call; the CLI is killed after this. */
+    timeoutMs: z.number().int().positive(),
+    /** Stream partial assistant text into an editable Telegram message. */
+    streaming: z.boolean(),
+    /** Default permission mode; users switch theirs with /mode. */
+    mode: z.enum(["plan", "readonly", "full"]),
+    approvals: ApprovalsConfigSchema,
+    /** Engines tried in order when the primary one is unavailable or fails on quota/auth. */
+    fallback: z.array(EngineFallbackSchema),
     codex: CodexEngineConfigSchema,
     antigravity: AntigravityEngineConfigSchema,
     copilot: CopilotEngineConfigSchema,
+    custom: CustomEngineConfigSchema,
+    http: HttpEngineConfigSchema,
   })
   .partial()
   .optional();
@@ -121,6 +237,15 @@ const SimpleCommandConfigSchema = z
   })
   .optional();
 
+const CleanCommandConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    message: CommandMessageSchema.optional(),
+    /** Summarise the outgoing session and hand the summary to the next one. */
+    carryOver: z.boolean().optional(),
+  })
+  .optional();
+
 const ResetCommandConfigSchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -141,6 +266,23 @@ const GitConfigSchema = z
   })
   .optional();
 
+const GitCommandsConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    /** Reply footer listing the files each engine run changed. */
+    changeSummary: z.boolean().optional(),
+    /** One git worktree (and branch) per workspace for the engine to work in. */
+    worktrees: z.boolean().optional(),
+    /** How /git_commit writes messages. */
+    commit: z
+      .object({
+        conventional: z.boolean().optional(),
+        template: z.string().optional(),
+      })
+      .optional(),
+  })
+  .optional();
+
 const NpmConfigSchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -152,6 +294,14 @@ const NpmConfigSchema = z
   })
   .optional();
 
+const UndoConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    /** Checkpoints kept per project; older ones are dropped. */
+    keep: z.number().int().positive().optional(),
+  })
+  .optional();
+
 const InfoConfigSchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -162,14 +312,29 @@ const InfoConfigSchema = z
   })
   .optional();
 
+const UsageConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    footer: z.boolean().optional(),
+  })
+  .optional();
+
 const CommandsConfigSchema = z
   .object({
     start: StartConfigSchema,
     help: SimpleCommandConfigSchema,
     reset: ResetCommandConfigSchema,
-    clean: SimpleCommandConfigSchema,
+    clean: CleanCommandConfigSchema,
+    stop: GitConfigSchema,
+    queue: GitConfigSchema,
+    usage: UsageConfigSchema,
+    engines: GitConfigSchema,
+    sessions: GitConfigSchema,
+    export: GitConfigSchema,
+    mode: GitConfigSchema,
     info: InfoConfigSchema,
-    git: GitConfigSchema,
+    undo: UndoConfigSchema,
+    git: GitCommandsConfigSchema,
     model: GitConfigSchema,
     engine: GitConfigSchema,
     npm: NpmConfigSchema,
@@ -215,10 +380,47 @@ const ProvidersConfigSchema = z
   });
 
 const AllowedUserIdSchema = z.union([z.number(), z.string()]);
+const RoleSchema = z
+  .object({
+    users: z.array(AllowedUserIdSchema),
+    /** Commands (without "/") this role may not run; "git_*" matches a prefix. */
+    deny: z.array(z.string()),
+  })
+  .partial();
 const AccessSchema = z
   .object({
     allowedUserIds: z.array(AllowedUserIdSchema),
+    /** Group chats whose members may all use the bot (in that chat only). */
+    allowedChatIds: z.array(AllowedUserIdSchema),
     dangerouslyAllowUnrestrictedAccess: z.boolean(),
+    /** Users allowed to run admin actions from Telegram (e.g. lift a budget block). */
+    adminUserIds: z.array(AllowedUserIdSchema),
+    /** Unknown users may ask the admins for access from Telegram. */
+    allowRequests: z.boolean(),
+    /** Named roles with per-command permissions; unset = every user may run every command. */
+    roles: z.record(z.string(), RoleSchema),
+    /** Role of allowed users not listed in any role. */
+    defaultRole: z.string(),
+  })
+  .partial()
+  .optional();
+
+const BudgetCapsSchema = z
+  .object({
+    dailyUsd: z.number().positive(),
+    monthlyUsd: z.number().positive(),
+    dailyTokens: z.number().int().positive(),
+    monthlyTokens: z.number().int().positive(),
+  })
+  .partial()
+  .optional();
+
+const BudgetSchema = z
+  .object({
+    /** "block" refuses new engine calls once a cap is hit; "warn" only warns. */
+    mode: z.enum(["block", "warn"]),
+    project: BudgetCapsSchema,
+    user: BudgetCapsSchema,
   })
   .partial()
   .optional();
@@ -243,6 +445,7 @@ const GlobalsFileSchema = z
       .object({ windowMs: z.number().positive() })
       .partial()
       .optional(),
+    budget: BudgetSchema,
     transcription: z
       .object({
         model: TranscriptionModelSchema,
@@ -292,6 +495,7 @@ const ProjectFileSchema = z.object({
     .partial()
     .optional(),
   debounce: z.object({ windowMs: z.number().positive() }).partial().optional(),
+  budget: BudgetSchema,
   transcription: z
     .object({
       model: TranscriptionModelSchema,
@@ -352,6 +556,20 @@ export interface ProviderModel {
   default?: boolean;
 }
 
+/** Spending caps for one scope (whole project or each user); unset = no cap. */
+export interface BudgetCaps {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyTokens?: number;
+  monthlyTokens?: number;
+}
+
+export interface AccessRole {
+  users: number[];
+  /** Denied commands; a trailing "*" matches a prefix. */
+  deny: string[];
+}
+
 export interface ResolvedProjectConfig {
   slug: string;
   name: string | undefined;
@@ -362,7 +580,13 @@ export interface ResolvedProjectConfig {
   telegram: { botToken: string };
   access: {
     allowedUserIds: number[];
+    allowedChatIds: number[];
     dangerouslyAllowUnrestrictedAccess: boolean;
+    adminUserIds: number[];
+    allowRequests: boolean;
+    /** Undefined when role-based access control is off. */
+    roles: Record<string, AccessRole> | undefined;
+    defaultRole: string;
   };
   engine: EngineName;
   engineCommand: string | undefined;
@@ -370,6 +594,26 @@ export interface ResolvedProjectConfig {
   engineEnvFile: string | undefined;
   engineSession: SessionMode;
   engineSessionMsg: string;
+  /** Max session age in ms before it is rotated; undefined = no limit. */
+  engineSessionTtlMs: number | undefined;
+  /** Max idle time in ms before the session is rotated; undefined = no limit. */
+  engineSessionIdleTimeoutMs: number | undefined;
+  /** Wall-clock limit for one engine call in ms; undefined = no limit. */
+  engineTimeoutMs: number | undefined;
+  engineStreaming: boolean;
+  /** Default permission mode (see /mode). */
+  engineMode: EngineMode;
+  /** Tool-call approvals over Telegram (see engine.approvals). */
+  engineApprovals: { enabled: boolean; timeoutMs: number };
+  engineFallback: Array<{
+    name: EngineName;
+    command: string | undefined;
+    model: string | undefined;
+  }>;
+  /** CLI description used when engine (or a fallback) is "custom". */
+  customEngine: CustomEngineConfig | undefined;
+  /** API settings used when engine (or a fallback) is "http". */
+  httpEngine: HttpEngineConfig | undefined;
   codex: {
     networkAccess: boolean;
     fullDiskAccess: boolean;
@@ -384,6 +628,11 @@ export interface ResolvedProjectConfig {
   };
   logging: { level: string; flow: boolean; persist: boolean };
   rateLimit: { max: number; windowMs: number };
+  budget: {
+    mode: "block" | "warn";
+    project: BudgetCaps;
+    user: BudgetCaps;
+  };
   debounce: { windowMs: number };
   transcription: { model: string; showTranscription: boolean } | undefined;
   context: Record<string, string> | undefined;
@@ -399,7 +648,14 @@ export interface ResolvedProjectConfig {
       message: { confirm?: string; done?: string };
       timeout: number;
     };
-    clean: { enabled: boolean; message?: string };
+    clean: { enabled: boolean; message?: string; carryOver: boolean };
+    stop: { enabled: boolean };
+    queue: { enabled: boolean };
+    usage: { enabled: boolean; footer: boolean };
+    engines: { enabled: boolean };
+    sessions: { enabled: boolean };
+    export: { enabled: boolean };
+    mode: { enabled: boolean };
     info: {
       enabled: boolean;
       cwd: boolean;
@@ -407,7 +663,13 @@ export interface ResolvedProjectConfig {
       session: boolean;
       context: boolean;
     };
-    git: { enabled: boolean };
+    git: {
+      enabled: boolean;
+      changeSummary: boolean;
+      worktrees: boolean;
+      commit: { conventional: boolean; template: string | undefined };
+    };
+    undo: { enabled: boolean; keep: number };
     model: { enabled: boolean };
     engine: { enabled: boolean };
     npm: {
@@ -438,22 +700,34 @@ export interface LoadedConfigResult {
 // Telegram user ID range (Bot API): 1 to 0xFFFFFFFFF inclusive
 const TELEGRAM_USER_ID_MAX = 0xfffffffff;
 
-function parseTelegramUserId(value: string | number, path: string): number {
+function parseTelegramUserId(
+  value: string | number,
+  path: string,
+  field: UserIdListField,
+): number {
   const str = typeof value === "string" ? value : String(value);
   const num = Number(str);
   if (!Number.isFinite(num) || !Number.isInteger(num)) {
     throw new ConfigLoadError(
-      `Configuration error: invalid allowedUserIds entry at ${path}: "${str}" is not a valid integer`,
+      `Configuration error: invalid ${field} entry at ${path}: "${str}" is not a valid integer`,
     );
   }
   if (typeof value === "string" && String(num) !== str) {
     throw new ConfigLoadError(
-      `Configuration error: invalid allowedUserIds entry at ${path}: "${str}" (expected exact integer form, no spaces/decimals/leading zeros)`,
+      `Configuration error: invalid ${field} entry at ${path}: "${str}" (expected exact integer form, no spaces/decimals/leading zeros)`,
     );
   }
+  if (field === "allowedChatIds") {
+    if (num >= 0) {
+      throw new ConfigLoadError(
+        `Configuration error: invalid ${field} entry at ${path}: ${num} is not a group chat ID (group and supergroup IDs are negative)`,
+      );
+    }
+    return num;
+  }
   if (num < 1 || num > TELEGRAM_USER_ID_MAX) {
     throw new ConfigLoadError(
-      `Configuration error: invalid allowedUserIds entry at ${path}: ${num} is outside Telegram user ID range (1–${TELEGRAM_USER_ID_MAX})`,
+      `Configuration error: invalid ${field} entry at ${path}: ${num} is outside Telegram user ID range (1–${TELEGRAM_USER_ID_MAX})`,
     );
   }
   return num;
@@ -467,32 +741,57 @@ function normalizeProjectMap(projects: Record<string, ProjectFileEntry>): void {
   }
 }
 
+type UserIdListField =
+  | "allowedUserIds"
+  | "allowedChatIds"
+  | "adminUserIds"
+  | "users";
+const USER_ID_LIST_FIELDS: UserIdListField[] = [
+  "allowedUserIds",
+  "allowedChatIds",
+  "adminUserIds",
+];
+
+function normalizeUserIdList(
+  access: Partial<Record<UserIdListField, Array<string | number>>>,
+  field: UserIdListField,
+  pathPrefix: string,
+): void {
+  const raw = access[field];
+  if (raw == null) return;
+  const normalized: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    normalized.push(
+      parseTelegramUserId(raw[i], `${pathPrefix}.${field}[${i}]`, field),
+    );
+  }
+  access[field] = normalized;
+}
+
+function normalizeRoleUserIds(
+  roles: Record<string, { users?: Array<string | number> }> | undefined,
+  pathPrefix: string,
+): void {
+  for (const [name, role] of Object.entries(roles ?? {})) {
+    normalizeUserIdList(role, "users", `${pathPrefix}.roles.${name}`);
+  }
+}
+
 function normalizeAllowedUserIdsInConfig(config: MultiConfigFile): void {
-  const globalsAccess = config.globals?.access;
-  if (globalsAccess?.allowedUserIds != null) {
-    const raw = globalsAccess.allowedUserIds;
-    const normalized: number[] = [];
-    for (let i = 0; i < raw.length; i++) {
-      normalized.push(
-        parseTelegramUserId(raw[i], `globals.access.allowedUserIds[${i}]`),
-      );
+  for (const field of USER_ID_LIST_FIELDS) {
+    const globalsAccess = config.globals?.access;
+    if (globalsAccess) {
+      normalizeUserIdList(globalsAccess, field, "globals.access");
+    }
+    for (const [key, project] of Object.entries(config.projects)) {
+      if (project.access) {
+        normalizeUserIdList(project.access, field, `projects.${key}.access`);
+      }
     }
-    (globalsAccess as { allowedUserIds: number[] }).allowedUserIds = normalized;
   }
+  normalizeRoleUserIds(config.globals?.access?.roles, "globals.access");
   for (const [key, project] of Object.entries(config.projects)) {
-    const access = project.access;
-    if (access?.allowedUserIds == null) continue;
-    const raw = access.allowedUserIds;
-    const normalized: number[] = [];
-    for (let i = 0; i < raw.length; i++) {
-      normalized.push(
-        parseTelegramUserId(
-          raw[i],
-          `projects.${key}.access.allowedUserIds[${i}]`,
-        ),
-      );
-    }
-    (access as { allowedUserIds: number[] }).allowedUserIds = normalized;
+    normalizeRoleUserIds(project.access?.roles, `projects.${key}.access`);
   }
 }
 
@@ -529,6 +828,56 @@ function resolveDataDir(
   return resolve(projectCwd, dataDirRaw);
 }
 
+/** Built-in roles; their `deny` lists apply unless the config sets one. */
+export const BUILTIN_ROLES: Record<string, string[]> = {
+  admin: [],
+  developer: ["model"],
+  viewer: [
+    "git_init",
+    "git_commit",
+    "git_clean",
+    "git_branch",
+    "git_worktree",
+    "undo",
+    "npm",
+    "reset",
+    "engine",
+    "engines",
+    "model",
+    "mode",
+  ],
+};
+
+/**
+ * Merge configured roles over the built-in ones. `adminUserIds` are members
+ * of the admin role. Undefined when no roles are configured (RBAC off).
+ */
+function resolveRoles(
+  roles: Record<string, z.infer<typeof RoleSchema>> | undefined,
+  adminUserIds: number[],
+): Record<string, AccessRole> | undefined {
+  if (!roles) return undefined;
+  const out: Record<string, AccessRole> = {};
+  for (const name of new Set([
+    ...Object.keys(BUILTIN_ROLES),
+    ...Object.keys(roles),
+  ])) {
+    out[name] = {
+      users: (roles[name]?.users ?? []) as number[],
+      deny: roles[name]?.deny ?? BUILTIN_ROLES[name] ?? [],
+    };
+  }
+  out.admin.users = [...new Set([...out.admin.users, ...adminUserIds])];
+  return out;
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Duration string (already validated by DurationSchema) to ms. */
+function resolveDuration(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : (parseDuration(value) ?? undefined);
+}
+
 // ─── Merge: project over globals over defaults ─────────────────────────────────
 
 export function resolveProjectConfig(
@@ -554,6 +903,14 @@ export function resolveProjectConfig(
     slug,
   );
 
+  const adminUserIds = (project.access?.adminUserIds ??
+    globals.access?.adminUserIds ??
+    []) as number[];
+  const roles = resolveRoles(
+    project.access?.roles ?? globals.access?.roles,
+    adminUserIds,
+  );
+
   const hasTranscription =
     project.transcription !== undefined || globals.transcription !== undefined;
 
@@ -590,6 +947,27 @@ export function resolveProjectConfig(
     );
   }
   const engineName = rawEngineName as EngineName;
+  const customEngine = project.engine?.custom ?? globals.engine?.custom;
+  const usesCustomEngine =
+    engineName === "custom" ||
+    (project.engine?.fallback ?? globals.engine?.fallback ?? []).some(
+      (entry) => (typeof entry === "string" ? entry : entry.name) === "custom",
+    );
+  if (usesCustomEngine && !customEngine) {
+    throw new ConfigLoadError(
+      `Configuration error: project "${key}" uses the custom engine but has no engine.custom block. ` +
+        "See docs/engines/custom/README.md.",
+    );
+  }
+  if (
+    engineName === "custom" &&
+    !(project.engine?.command ?? globals.engine?.command)
+  ) {
+    throw new ConfigLoadError(
+      `Configuration error: project "${key}" uses the custom engine but has no engine.command. ` +
+        "See docs/engines/custom/README.md.",
+    );
+  }
 
   const mergedProviders = {
     ...(providers ?? {}),
@@ -688,6 +1066,56 @@ export function resolveProjectConfig(
       message: rawClean?.message
         ? resolveMessageTemplate(rawClean.message, "commands.clean")
         : undefined,
+      carryOver:
+        project.commands?.clean?.carryOver ??
+        globals.commands?.clean?.carryOver ??
+        false,
+    },
+    stop: {
+      enabled:
+        project.commands?.stop?.enabled ??
+        globals.commands?.stop?.enabled ??
+        true,
+    },
+    queue: {
+      enabled:
+        project.commands?.queue?.enabled ??
+        globals.commands?.queue?.enabled ??
+        true,
+    },
+    usage: {
+      enabled:
+        project.commands?.usage?.enabled ??
+        globals.commands?.usage?.enabled ??
+        true,
+      footer:
+        project.commands?.usage?.footer ??
+        globals.commands?.usage?.footer ??
+        false,
+    },
+    engines: {
+      enabled:
+        project.commands?.engines?.enabled ??
+        globals.commands?.engines?.enabled ??
+        true,
+    },
+    sessions: {
+      enabled:
+        project.commands?.sessions?.enabled ??
+        globals.commands?.sessions?.enabled ??
+        true,
+    },
+    export: {
+      enabled:
+        project.commands?.export?.enabled ??
+        globals.commands?.export?.enabled ??
+        true,
+    },
+    mode: {
+      enabled:
+        project.commands?.mode?.enabled ??
+        globals.commands?.mode?.enabled ??
+        true,
     },
     info: {
       enabled:
@@ -713,6 +1141,30 @@ export function resolveProjectConfig(
         project.commands?.git?.enabled ??
         globals.commands?.git?.enabled ??
         false,
+      changeSummary:
+        project.commands?.git?.changeSummary ??
+        globals.commands?.git?.changeSummary ??
+        true,
+      worktrees:
+        project.commands?.git?.worktrees ??
+        globals.commands?.git?.worktrees ??
+        false,
+      commit: {
+        conventional:
+          project.commands?.git?.commit?.conventional ??
+          globals.commands?.git?.commit?.conventional ??
+          false,
+        template:
+          project.commands?.git?.commit?.template ??
+          globals.commands?.git?.commit?.template,
+      },
+    },
+    undo: {
+      enabled:
+        project.commands?.undo?.enabled ??
+        globals.commands?.undo?.enabled ??
+        false,
+      keep: project.commands?.undo?.keep ?? globals.commands?.undo?.keep ?? 20,
     },
     model: { enabled: modelEnabled },
     engine: { enabled: engineEnabled },
@@ -756,10 +1208,23 @@ export function resolveProjectConfig(
       allowedUserIds: ((project.access !== undefined
         ? project.access.allowedUserIds
         : globals.access?.allowedUserIds) ?? []) as number[],
+      allowedChatIds: ((project.access !== undefined
+        ? project.access.allowedChatIds
+        : globals.access?.allowedChatIds) ?? []) as number[],
       dangerouslyAllowUnrestrictedAccess:
         (project.access !== undefined
           ? project.access.dangerouslyAllowUnrestrictedAccess
           : globals.access?.dangerouslyAllowUnrestrictedAccess) ?? false,
+      adminUserIds: [
+        ...new Set([...adminUserIds, ...(roles?.admin.users ?? [])]),
+      ],
+      allowRequests:
+        (project.access !== undefined
+          ? project.access.allowRequests
+          : globals.access?.allowRequests) ?? false,
+      roles,
+      defaultRole:
+        project.access?.defaultRole ?? globals.access?.defaultRole ?? "viewer",
     },
     engine: engineName,
     engineCommand: project.engine?.command ?? globals.engine?.command,
@@ -786,7 +1251,9 @@ export function resolveProjectConfig(
     engineSession: (() => {
       const raw = project.engine?.session ?? globals.engine?.session ?? true;
       const mode: SessionMode = raw === undefined ? true : (raw as SessionMode);
-      const sessionCaps = getEngineSessionCapabilities(engineName);
+      const sessionCaps = getEngineSessionCapabilities(engineName, {
+        custom: customEngine,
+      });
       if (mode === "user" && !sessionCaps.supportsUserIsolation) {
         throw new ConfigLoadError(
           `Configuration error: engine.session "user" is not supported by the ${engineName} adapter. ` +
@@ -797,6 +1264,36 @@ export function resolveProjectConfig(
     })(),
     engineSessionMsg:
       project.engine?.sessionMsg ?? globals.engine?.sessionMsg ?? "hi!",
+    engineSessionTtlMs: resolveDuration(
+      project.engine?.sessionTtl ?? globals.engine?.sessionTtl,
+    ),
+    engineSessionIdleTimeoutMs: resolveDuration(
+      project.engine?.sessionIdleTimeout ?? globals.engine?.sessionIdleTimeout,
+    ),
+    engineTimeoutMs: project.engine?.timeoutMs ?? globals.engine?.timeoutMs,
+    engineStreaming:
+      project.engine?.streaming ?? globals.engine?.streaming ?? false,
+    engineMode: project.engine?.mode ?? globals.engine?.mode ?? "full",
+    engineApprovals: {
+      enabled:
+        project.engine?.approvals?.enabled ??
+        globals.engine?.approvals?.enabled ??
+        false,
+      timeoutMs:
+        resolveDuration(
+          project.engine?.approvals?.timeout ??
+            globals.engine?.approvals?.timeout,
+        ) ?? DEFAULT_APPROVAL_TIMEOUT_MS,
+    },
+    engineFallback: (project.engine?.fallback ?? globals.engine?.fallback ?? [])
+      .map((entry) =>
+        typeof entry === "string"
+          ? { name: entry, command: undefined, model: undefined }
+          : { name: entry.name, command: entry.command, model: entry.model },
+      )
+      .filter((entry) => entry.name !== engineName),
+    customEngine,
+    httpEngine: project.engine?.http ?? globals.engine?.http,
     codex: {
       networkAccess:
         project.engine?.codex?.networkAccess ??
@@ -837,6 +1334,11 @@ export function resolveProjectConfig(
       windowMs:
         project.rateLimit?.windowMs ?? globals.rateLimit?.windowMs ?? 60000,
     },
+    budget: {
+      mode: project.budget?.mode ?? globals.budget?.mode ?? "block",
+      project: { ...globals.budget?.project, ...project.budget?.project },
+      user: { ...globals.budget?.user, ...project.budget?.user },
+    },
     debounce: {
       windowMs: project.debounce?.windowMs ?? globals.debounce?.windowMs ?? 300,
     },
@@ -913,15 +1415,34 @@ export function validateAccessPolicies(
   const errors: string[] = [];
 
   for (const project of projects) {
-    const { allowedUserIds, dangerouslyAllowUnrestrictedAccess } =
-      project.access;
-    const hasUsers = allowedUserIds.length > 0;
+    const {
+      allowedUserIds,
+      allowedChatIds,
+      dangerouslyAllowUnrestrictedAccess,
+    } = project.access;
+    const hasUsers = allowedUserIds.length > 0 || allowedChatIds.length > 0;
     const hasUnsafe = dangerouslyAllowUnrestrictedAccess === true;
 
     if (!hasUsers && !hasUnsafe) {
       errors.push(
         `Project "${project.slug}": no access policy configured. ` +
-          "Set access.allowedUserIds or access.dangerouslyAllowUnrestrictedAccess.",
+          "Set access.allowedUserIds, access.allowedChatIds or access.dangerouslyAllowUnrestrictedAccess.",
+      );
+    }
+
+    if (
+      project.access.allowRequests &&
+      project.access.adminUserIds.length === 0
+    ) {
+      errors.push(
+        `Project "${project.slug}": access.allowRequests needs at least one admin in access.adminUserIds to approve requests.`,
+      );
+    }
+
+    const { roles, defaultRole } = project.access;
+    if (roles && !roles[defaultRole]) {
+      errors.push(
+        `Project "${project.slug}": access.defaultRole "${defaultRole}" is not a defined role (${Object.keys(roles).join(", ")}).`,
       );
     }
   }
@@ -964,6 +1485,8 @@ const PROVIDER_ENGINE_KEYS = [
   "opencode",
   "cursor",
   "antigravity",
+  "custom",
+  "http",
 ] as const;
 
 function countProviderDefaults(
@@ -2,7 +2,12 @@ import { execSync } from "node:child_process";
 import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
@@ -37,6 +42,7 @@ export function createAntigravityAdapter(
       defaultMode: "user",
       sharedContinuationRequiresMarker: false,
     },
+    supportsModes: true,
 
     check() {
       try {
@@ -53,7 +59,7 @@ export function createAntigravityAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { sessionId, onProgress, continueSession } = options;
+      const { sessionId, onProgress, continueSession, signal } = options;
       const { config, logger } = ctx;
 
       const fullPrompt = await buildContextualPrompt(options, ctx);
@@ -64,7 +70,11 @@ export function createAntigravityAdapter(
         "--output-format",
         "stream-json",
         "--approval-mode",
-        config.antigravity.approvalMode,
+        // Permission mode (see /mode): without auto-approval, headless runs
+        // cannot use tools that edit files or run shell commands
+        options.mode === "plan" || options.mode === "readonly"
+          ? "default"
+          : config.antigravity.approvalMode,
       ];
 
       if (model) {
@@ -93,6 +103,10 @@ export function createAntigravityAdapter(
           { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stderrOutput = "";
         let lastResult: EngineResult | null = null;
@@ -226,9 +240,21 @@ export function createAntigravityAdapter(
         });
 
         proc.on("close", (code) => {
+          watch.dispose();
           logger.debug({ code }, "Gemini process closed");
 
-          if (lastResult) {
+          if (watch.aborted) {
+            logger.info("Gemini process stopped by abort signal");
+            resolve(abortedEngineResult(lastAssistantText));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "Gemini process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(lastAssistantText, config.engineTimeoutMs),
+            );
+          } else if (lastResult) {
             if (!lastResult.success) {
               logger.error(
                 {
@@ -263,6 +289,7 @@ export function createAntigravityAdapter(
         });
 
         proc.on("error", (err) => {
+          watch.dispose();
           logger.error({ error: err.message }, "Gemini process error");
           resolve({
             success: false,
@@ -1,17 +1,59 @@
 import { execSync } from "node:child_process";
 import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
+import { openApprovalEndpoint, PERMISSION_PROMPT_TOOL } from "../approvals.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
   EngineResult,
+  EngineUsage,
   ParsedResponse,
 } from "../types.js";
 
 const DEFAULT_COMMAND = "claude";
 
+/** Tools that can change the project, denied in readonly mode. */
+const READONLY_DISALLOWED_TOOLS = [
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "NotebookEdit",
+  "Bash",
+];
+
+/**
+ * Usage from a stream-json `result` event. Input tokens include prompt
+ * cache reads and writes, which Claude reports separately.
+ */
+function resultUsage(event: {
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}): EngineUsage | undefined {
+  const u = event.usage;
+  if (event.total_cost_usd === undefined && !u) return undefined;
+  return {
+    costUsd: event.total_cost_usd,
+    inputTokens: u
+      ? (u.input_tokens ?? 0) +
+        (u.cache_creation_input_tokens ?? 0) +
+        (u.cache_read_input_tokens ?? 0)
+      : undefined,
+    outputTokens: u?.output_tokens,
+  };
+}
+
 export function createClaudeAdapter(
   command?: string,
   model?: string,
@@ -26,6 +68,7 @@ export function createClaudeAdapter(
       defaultMode: "user",
       sharedContinuationRequiresMarker: false,
     },
+    supportsModes: true,
 
     check() {
       try {
@@ -42,7 +85,7 @@ export function createClaudeAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { sessionId, onProgress } = options;
+      const { sessionId, onProgress, onPartialText, signal } = options;
       const { config, logger } = ctx;
 
       const fullPrompt = await buildContextualPrompt(options, ctx);
@@ -55,11 +98,37 @@ export function createClaudeAdapter(
         "--verbose",
       ];
 
+      // Token-level text deltas, only needed when the caller streams
+      if (onPartialText) {
+        args.push("--include-partial-messages");
+      }
+
       // Set model if specified
       if (model) {
         args.push("--model", model);
       }
 
+      // Permission mode (see /mode); full keeps the project's own settings
+      if (options.mode === "plan") {
+        args.push("--permission-mode", "plan");
+      } else if (options.mode === "readonly") {
+        args.push("--disallowedTools", READONLY_DISALLOWED_TOOLS.join(","));
+      }
+
+      // Tool calls not allowed by the project's settings are asked to the
+      // user through HAL's MCP permission broker (engine.approvals)
+      const approvals = options.approve
+        ? await openApprovalEndpoint(options.approve)
+        : undefined;
+      if (approvals) {
+        args.push(
+          "--mcp-config",
+          approvals.mcpConfig,
+          "--permission-prompt-tool",
+          PERMISSION_PROMPT_TOOL,
+        );
+      }
+
       // Session: false = stateless; true | "user" = per-user (--resume); "shared" = --continue
       if (config.engineSession !== false) {
         if (config.engineSession === "shared") {
@@ -72,117 +141,145 @@ export function createClaudeAdapter(
       const cwd = config.cwd;
       logger.info({ command: cmd, args, cwd }, "Executing Claude CLI");
 
-      return new Promise((resolve) => {
+      const run = new Promise<EngineResult>((resolve) => {
         const proc = spawnEngineProcess(
           cmd,
           args,
           { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stderrOutput = "";
         let lastResult: EngineResult | null = null;
         let currentSessionId: string | undefined;
         let lastAssistantText = "";
+        let streamedText = "";
+        let lineBuffer = "";
 
-        proc.stdout.on("data", (data: Buffer) => {
-          const chunk = data.toString();
-          const lines = chunk.split("\n").filter((line) => line.trim());
+        const handleLine = (line: string) => {
+          try {
+            const event = JSON.parse(line);
 
-          for (const line of lines) {
-            try {
-              const event = JSON.parse(line);
-
-              // Extract session ID from init message
-              if (
-                event.type === "system" &&
-                event.subtype === "init" &&
-                event.session_id
+            // Partial assistant text (--include-partial-messages)
+            if (event.type === "stream_event" && onPartialText) {
+              const streamEvent = event.event;
+              if (streamEvent?.type === "message_start") {
+                streamedText = "";
+              } else if (
+                streamEvent?.type === "content_block_delta" &&
+                streamEvent.delta?.type === "text_delta" &&
+                streamEvent.delta.text
               ) {
-                currentSessionId = event.session_id;
+                streamedText += streamEvent.delta.text;
+                onPartialText(streamedText);
               }
+            }
 
-              // Extract text from assistant messages and send progress updates
-              if (event.type === "assistant" && event.message?.content) {
-                for (const block of event.message.content) {
-                  if (block.type === "text" && block.text) {
-                    lastAssistantText = block.text;
+            // Extract session ID from init message
+            if (
+              event.type === "system" &&
+              event.subtype === "init" &&
+              event.session_id
+            ) {
+              currentSessionId = event.session_id;
+            }
+
+            // Extract text from assistant messages and send progress updates
+            if (event.type === "assistant" && event.message?.content) {
+              for (const block of event.message.content) {
+                if (block.type === "text" && block.text) {
+                  lastAssistantText = block.text;
+                }
+
+                if (block.type === "tool_use") {
+                  const toolName = block.name || "unknown";
+                  let progressMsg = `Using ${toolName}...`;
+
+                  if (toolName === "Read" && block.input?.file_path) {
+                    progressMsg = `Reading: ${block.input.file_path}`;
+                  } else if (toolName === "Grep" && block.input?.pattern) {
+                    progressMsg = `Searching for: ${block.input.pattern}`;
+                  } else if (toolName === "Glob" && block.input?.pattern) {
+                    progressMsg = `Finding files: ${block.input.pattern}`;
+                  } else if (toolName === "Bash" && block.input?.command) {
+                    const cmdStr = block.input.command.slice(0, 50);
+                    progressMsg = `Running: ${cmdStr}${block.input.command.length > 50 ? "..." : ""}`;
+                  } else if (toolName === "Edit" && block.input?.file_path) {
+                    progressMsg = `Editing: ${block.input.file_path}`;
+                  } else if (toolName === "Write" && block.input?.file_path) {
+                    progressMsg = `Writing: ${block.input.file_path}`;
+                  } else if (toolName === "WebSearch" && block.input?.query) {
+                    progressMsg = `Searching web: ${block.input.query}`;
+                  } else if (toolName === "WebFetch" && block.input?.url) {
+                    progressMsg = `Fetching: ${block.input.url}`;
                   }
 
-                  if (block.type === "tool_use") {
-                    const toolName = block.name || "unknown";
-                    let progressMsg = `Using ${toolName}...`;
-
-                    if (toolName === "Read" && block.input?.file_path) {
-                      progressMsg = `Reading: ${block.input.file_path}`;
-                    } else if (toolName === "Grep" && block.input?.pattern) {
-                      progressMsg = `Searching for: ${block.input.pattern}`;
-                    } else if (toolName === "Glob" && block.input?.pattern) {
-                      progressMsg = `Finding files: ${block.input.pattern}`;
-                    } else if (toolName === "Bash" && block.input?.command) {
-                      const cmdStr = block.input.command.slice(0, 50);
-                      progressMsg = `Running: ${cmdStr}${block.input.command.length > 50 ? "..." : ""}`;
-                    } else if (toolName === "Edit" && block.input?.file_path) {
-                      progressMsg = `Editing: ${block.input.file_path}`;
-                    } else if (toolName === "Write" && block.input?.file_path) {
-                      progressMsg = `Writing: ${block.input.file_path}`;
-                    } else if (toolName === "WebSearch" && block.input?.query) {
-                      progressMsg = `Searching web: ${block.input.query}`;
-                    } else if (toolName === "WebFetch" && block.input?.url) {
-                      progressMsg = `Fetching: ${block.input.url}`;
-                    }
-
-                    logger.info(
-                      { tool: toolName, input: block.input },
-                      progressMsg,
-                    );
-                    if (onProgress) {
-                      onProgress(progressMsg);
-                    }
+                  logger.info(
+                    { tool: toolName, input: block.input },
+                    progressMsg,
+                  );
+                  if (onProgress) {
+                    onProgress(progressMsg);
                   }
                 }
               }
+            }
 
-              // Log tool results
-              if (event.type === "user" && event.message?.content) {
-                for (const block of event.message.content) {
-                  if (block.type === "tool_result") {
-                    const result =
-                      typeof block.content === "string"
-                        ? block.content.slice(0, 500)
-                        : JSON.stringify(block.content).slice(0, 500);
-                    logger.info(
-                      {
-                        toolUseId: block.tool_use_id,
-                        isError: block.is_error,
-                      },
-                      `Tool result: ${result}${result.length >= 500 ? "..." : ""}`,
-                    );
-                  }
+            // Log tool results
+            if (event.type === "user" && event.message?.content) {
+              for (const block of event.message.content) {
+                if (block.type === "tool_result") {
+                  const result =
+                    typeof block.content === "string"
+                      ? block.content.slice(0, 500)
+                      : JSON.stringify(block.content).slice(0, 500);
+                  logger.info(
+                    {
+                      toolUseId: block.tool_use_id,
+                      isError: block.is_error,
+                    },
+                    `Tool result: ${result}${result.length >= 500 ? "..." : ""}`,
+                  );
                 }
               }
+            }
 
-              // Capture the final result (omit sessionId when shared so handlers don't persist)
-              if (event.type === "result") {
-                logger.debug({ event }, "Claude result event");
-                const errorMessage = event.is_error
-                  ? event.result ||
-                    (event.errors?.length ? event.errors.join("; ") : undefined)
-                  : undefined;
-                const rawSessionId = event.session_id || currentSessionId;
-                const omitSessionId =
-                  config.engineSession === false ||
-                  config.engineSession === "shared";
-                lastResult = {
-                  success: !event.is_error,
-                  output: event.result || lastAssistantText || "",
-                  sessionId: omitSessionId ? undefined : rawSessionId,
-                  error: errorMessage,
-                };
-              }
-            } catch {
-              // Not valid JSON, ignore
+            // Capture the final result (omit sessionId when shared so handlers don't persist)
+            if (event.type === "result") {
+              logger.debug({ event }, "Claude result event");
+              const errorMessage = event.is_error
+                ? event.result ||
+                  (event.errors?.length ? event.errors.join("; ") : undefined)
+                : undefined;
+              const rawSessionId = event.session_id || currentSessionId;
+              const omitSessionId =
+                config.engineSession === false ||
+                config.engineSession === "shared";
+              lastResult = {
+                success: !event.is_error,
+                output: event.result || lastAssistantText || "",
+                sessionId: omitSessionId ? undefined : rawSessionId,
+                error: errorMessage,
+                usage: resultUsage(event),
+              };
             }
+          } catch {
+            // Not valid JSON, ignore
+          }
+        };
+
+        proc.stdout.on("data", (data: Buffer) => {
+          // Partial-message events are small and frequent: keep incomplete
+          // lines for the next chunk instead of dropping them.
+          lineBuffer += data.toString();
+          const lines = lineBuffer.split("\n");
+          lineBuffer = lines.pop() ?? "";
+          for (const line of lines) {
+            if (line.trim()) handleLine(line);
           }
         });
 
@@ -195,9 +292,25 @@ export function createClaudeAdapter(
         });
 
         proc.on("close", (code) => {
+          watch.dispose();
+          if (lineBuffer.trim()) handleLine(lineBuffer);
           logger.debug({ code }, "Claude process closed");
 
-          if (lastResult) {
+          if (watch.aborted) {
+            logger.info("Claude process stopped by abort signal");
+            resolve(abortedEngineResult(streamedText || lastAssistantText));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "Claude process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(
+                streamedText || lastAssistantText,
+                config.engineTimeoutMs,
+              ),
+            );
+          } else if (lastResult) {
             if (!lastResult.success) {
               logger.error(
                 {
@@ -234,6 +347,7 @@ export function createClaudeAdapter(
         });
 
         proc.on("error", (err) => {
+          watch.dispose();
           logger.error({ error: err.message }, "Claude process error");
           resolve({
             success: false,
@@ -242,6 +356,7 @@ export function createClaudeAdapter(
           });
         });
       });
+      return run.finally(() => approvals?.close());
     },
 
     parse(result: EngineResult): ParsedResponse {
@@ -288,6 +403,7 @@ export function createClaudeAdapter(
       } catch {
         return {
           text: result.output || "No response received",
+          ...result.usage,
         };
       }
     },
@@ -3,11 +3,17 @@ import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
 import { findLatestCodexSessionUuidForCwd } from "../codex-sessions.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
   EngineResult,
+  EngineUsage,
   ParsedResponse,
 } from "../types.js";
 
@@ -29,6 +35,57 @@ function trunc(s: string, maxLen: number): string {
   return s.length <= maxLen ? s : `${s.slice(0, maxLen - 1)}…`;
 }
 
+/** Return the text of the last completed `agent_message` item in Codex JSONL output. */
+function lastAgentMessage(jsonl: string): string {
+  let output = "";
+  for (const line of jsonl.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const event = JSON.parse(trimmed) as Record<string, unknown>;
+      if (
+        event.type === "item.completed" &&
+        event.item &&
+        (event.item as Record<string, unknown>).type === "agent_message"
+      ) {
+        const text = (event.item as Record<string, unknown>).text;
+        if (typeof text === "string") output = text;
+      }
+    } catch {
+      // ignore
+    }
+  }
+  return output;
+}
+
+/**
+ * Sum the `turn.completed` usage events of a Codex JSONL stream.
+ * Codex reports tokens only (cached input is part of `input_tokens`).
+ */
+function turnUsage(jsonl: string): EngineUsage | undefined {
+  let usage: EngineUsage | undefined;
+  for (const line of jsonl.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const event = JSON.parse(trimmed) as Record<string, unknown>;
+      if (event.type !== "turn.completed" || !event.usage) continue;
+      const u = event.usage as Record<string, unknown>;
+      usage = {
+        inputTokens:
+          (usage?.inputTokens ?? 0) +
+          (typeof u.input_tokens === "number" ? u.input_tokens : 0),
+        outputTokens:
+          (usage?.outputTokens ?? 0) +
+          (typeof u.output_tokens === "number" ? u.output_tokens : 0),
+      };
+    } catch {
+      // ignore
+    }
+  }
+  return usage;
+}
+
 /**
  * Adapter for OpenAI Codex CLI.
  * Fresh:    `codex exec -C <cwd> [-m model] [PROMPT]`
@@ -49,6 +106,7 @@ export function createCodexAdapter(
       defaultMode: "shared",
       sharedContinuationRequiresMarker: true,
     },
+    supportsModes: true,
 
     check() {
       try {
@@ -65,7 +123,8 @@ export function createCodexAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { continueSession, sessionId, onProgress } = options;
+      const { continueSession, sessionId, onProgress, onPartialText, signal } =
+        options;
       const { config, logger } = ctx;
       const fullPrompt = await buildContextualPrompt(options, ctx);
       const cwd = config.cwd;
@@ -89,7 +148,11 @@ export function createCodexAdapter(
 
       const codex = config.codex;
       let tier: string;
-      if (codex.dangerouslyEnableYolo) {
+      if (options.mode === "plan" || options.mode === "readonly") {
+        // Permission mode (see /mode) overrides the configured tier
+        args.push("--sandbox", "read-only", "--skip-git-repo-check");
+        tier = options.mode;
+      } else if (codex.dangerouslyEnableYolo) {
         args.push(
           "--dangerously-bypass-approvals-and-sandbox",
           "--skip-git-repo-check",
@@ -148,6 +211,10 @@ export function createCodexAdapter(
           { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stdout = "";
         let stderrOutput = "";
@@ -247,6 +314,16 @@ export function createCodexAdapter(
               const event = JSON.parse(trimmed) as Record<string, unknown>;
               const msg = progressFromEvent(event);
               if (msg) maybeProgress(msg);
+              // Codex emits agent messages whole: stream them one at a time
+              const item = event.item as Record<string, unknown> | undefined;
+              if (
+                onPartialText &&
+                event.type === "item.completed" &&
+                item?.type === "agent_message" &&
+                typeof item.text === "string"
+              ) {
+                onPartialText(item.text);
+              }
             } catch {
               // Non-JSON line — ignore
             }
@@ -286,9 +363,24 @@ export function createCodexAdapter(
 
         proc.on("close", (code) => {
           clearInterval(elapsedTimer);
+          watch.dispose();
           logger.debug({ code }, "Codex process closed");
 
-          if (code === 0) {
+          if (watch.aborted) {
+            logger.info("Codex process stopped by abort signal");
+            resolve(abortedEngineResult(lastAgentMessage(stdout)));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "Codex process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(
+                lastAgentMessage(stdout),
+                config.engineTimeoutMs,
+              ),
+            );
+          } else if (code === 0) {
             let resultSessionId: string | undefined;
             if (config.engineSession !== false) {
               if (config.engineSession === "user") {
@@ -300,30 +392,13 @@ export function createCodexAdapter(
             }
 
             // Extract final agent_message text from JSONL output.
-            let output = "";
-            for (const line of stdout.split("\n")) {
-              const trimmed = line.trim();
-              if (!trimmed) continue;
-              try {
-                const event = JSON.parse(trimmed) as Record<string, unknown>;
-                if (
-                  event.type === "item.completed" &&
-                  event.item &&
-                  (event.item as Record<string, unknown>).type ===
-                    "agent_message"
-                ) {
-                  const text = (event.item as Record<string, unknown>).text;
-                  if (typeof text === "string") output = text;
-                }
-              } catch {
-                // ignore
-              }
-            }
+            const output = lastAgentMessage(stdout);
 
             resolve({
               success: true,
               output: output || stdout.trim() || "No response received",
               sessionId: resultSessionId,
+              usage: turnUsage(stdout),
             });
           } else {
             resolve({
@@ -336,6 +411,7 @@ export function createCodexAdapter(
 
         proc.on("error", (err) => {
           clearInterval(elapsedTimer);
+          watch.dispose();
           logger.error({ error: err.message }, "Codex process error");
           resolve({
             success: false,
@@ -350,7 +426,10 @@ export function createCodexAdapter(
       if (!result.success) {
         return { text: result.error || "An unknown error occurred" };
       }
-      return { text: result.output || "No response received" };
+      return {
+        text: result.output || "No response received",
+        ...result.usage,
+      };
     },
 
     skillsDirs(projectCwd: string): string[] {
@@ -2,7 +2,12 @@ import { execSync } from "node:child_process";
 import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
@@ -57,6 +62,7 @@ export function createCopilotAdapter(
       defaultMode: "shared",
       sharedContinuationRequiresMarker: true,
     },
+    supportsModes: true,
 
     check() {
       try {
@@ -73,7 +79,7 @@ export function createCopilotAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { onProgress, continueSession, sessionId } = options;
+      const { onProgress, continueSession, sessionId, signal } = options;
       const { config, logger } = ctx;
 
       const fullPrompt = await buildContextualPrompt(options, ctx);
@@ -100,6 +106,11 @@ export function createCopilotAdapter(
         args.push("--allow-all-paths");
       }
 
+      // Permission mode (see /mode): deny rules win over --allow-all-tools
+      if (options.mode === "plan" || options.mode === "readonly") {
+        args.push("--deny-tool", "write", "--deny-tool", "shell");
+      }
+
       if (model) {
         args.push("--model", model);
       }
@@ -127,6 +138,10 @@ export function createCopilotAdapter(
           { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stdout = "";
         let stderrOutput = "";
@@ -151,9 +166,21 @@ export function createCopilotAdapter(
         });
 
         proc.on("close", (code) => {
+          watch.dispose();
           logger.info({ code }, "Copilot process closed");
 
-          if (code === 0) {
+          if (watch.aborted) {
+            logger.info("Copilot process stopped by abort signal");
+            resolve(abortedEngineResult(stdout.trim()));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "Copilot process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(stdout.trim(), config.engineTimeoutMs),
+            );
+          } else if (code === 0) {
             resolve({
               success: true,
               output: stdout.trim() || "No response received",
@@ -175,6 +202,7 @@ export function createCopilotAdapter(
         });
 
         proc.on("error", (err) => {
+          watch.dispose();
           logger.error({ error: err.message }, "Copilot process error");
           resolve({
             success: false,
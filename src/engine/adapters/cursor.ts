@@ -2,7 +2,12 @@ import { execSync } from "node:child_process";
 import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
@@ -43,7 +48,7 @@ export function createCursorAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { onProgress, continueSession, sessionId } = options;
+      const { onProgress, continueSession, sessionId, signal } = options;
       const { config, logger } = ctx;
 
       const fullPrompt = await buildContextualPrompt(options, ctx);
@@ -97,6 +102,10 @@ export function createCursorAdapter(
           { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stdout = "";
         let stderrOutput = "";
@@ -134,9 +143,21 @@ export function createCursorAdapter(
         });
 
         proc.on("close", (code) => {
+          watch.dispose();
           logger.info({ code }, "Cursor process closed");
 
-          if (code === 0) {
+          if (watch.aborted) {
+            logger.info("Cursor process stopped by abort signal");
+            resolve(abortedEngineResult(stdout.trim()));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "Cursor process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(stdout.trim(), config.engineTimeoutMs),
+            );
+          } else if (code === 0) {
             let resultSessionId: string | undefined;
             if (config.engineSession !== false) {
               if (config.engineSession === "user" && lastSessionId) {
@@ -166,6 +187,7 @@ export function createCursorAdapter(
         });
 
         proc.on("error", (err) => {
+          watch.dispose();
           logger.error({ error: err.message }, "Cursor process error");
           resolve({
             success: false,
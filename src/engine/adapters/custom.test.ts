@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { CustomEngineConfig } from "../types.js";
+import { buildCustomArgs, parseCustomOutput } from "./custom.js";
+
+const vars = { prompt: "Fix the bug", cwd: "/work/app" };
+
+describe("buildCustomArgs", () => {
+  it("fills placeholders and splices model and session args at their markers", () => {
+    const spec: CustomEngineConfig = {
+      args: [
+        "run",
+        "{modelArgs}",
+        "--cwd",
+        "{cwd}",
+        "{sessionArgs}",
+        "--message={prompt}",
+      ],
+      modelArgs: ["--model", "{model}"],
+    };
+    expect(
+      buildCustomArgs(spec, { ...vars, model: "m-1", sessionId: "s-9" }, [
+        "--resume",
+        "{sessionId}",
+      ]),
+    ).toEqual([
+      "run",
+      "--model",
+      "m-1",
+      "--cwd",
+      "/work/app",
+      "--resume",
+      "s-9",
+      "--message=Fix the bug",
+    ]);
+  });
+
+  it("appends missing markers, skips model args without a model and adds the prompt", () => {
+    const spec: CustomEngineConfig = {
+      args: ["chat"],
+      modelArgs: ["--model", "{model}"],
+    };
+    expect(buildCustomArgs(spec, vars, ["--continue"])).toEqual([
+      "chat",
+      "--continue",
+      "Fix the bug",
+    ]);
+  });
+});
+
+describe("parseCustomOutput", () => {
+  it("returns trimmed text and captures the session id with sessionRegex", () => {
+    const spec: CustomEngineConfig = {
+      args: [],
+      output: { format: "text", sessionRegex: "session: (\\w+)" },
+    };
+    expect(
+      parseCustomOutput(spec, "  Done.\n", "info session: abc123\n"),
+    ).toEqual({ text: "Done.", sessionId: "abc123" });
+    expect(parseCustomOutput(spec, "Done.", "")).toEqual({
+      text: "Done.",
+      sessionId: undefined,
+    });
+  });
+
+  it("reads the last text and session id from JSON lines, skipping other lines", () => {
+    const spec: CustomEngineConfig = {
+      args: [],
+      output: {
+        format: "jsonl",
+        textPath: "item.content.0.text",
+        sessionPath: "session_id",
+      },
+    };
+    const stdout = [
+      JSON.stringify({ session_id: "s-1" }),
+      "progress: thinking…",
+      JSON.stringify({ item: { content: [{ text: "Working" }] } }),
+      JSON.stringify({ item: { content: [{ text: "All fixed." }] } }),
+      "",
+    ].join("\n");
+    expect(parseCustomOutput(spec, stdout, "")).toEqual({
+      text: "All fixed.",
+      sessionId: "s-1",
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { execSync } from "node:child_process";
+import { join } from "node:path";
+import type { ProjectContext } from "../../types.js";
+import { buildContextualPrompt } from "../prompt.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
+import type {
+  CustomEngineConfig,
+  EngineAdapter,
+  EngineExecuteOptions,
+  EngineResult,
+  EngineSessionCapabilities,
+  ParsedResponse,
+} from "../types.js";
+
+/** Marker persisted for shared sessions (the CLI keeps the real state). */
+const SHARED_SESSION_MARKER = "active";
+
+/**
+ * Read a dotted path (`item.text`, `content.0.text`) from a parsed JSON value.
+ */
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function fillPlaceholders(arg: string, vars: Record<string, string>): string {
+  return arg.replace(/\{(prompt|model|sessionId|cwd)\}/g, (_, key: string) =>
+    String(vars[key] ?? ""),
+  );
+}
+
+/**
+ * Expand the args template: splice `{modelArgs}` / `{sessionArgs}` markers
+ * (appending the lists when the markers are absent), fill placeholders and
+ * make sure the prompt is passed.
+ */
+export function buildCustomArgs(
+  spec: CustomEngineConfig,
+  vars: { prompt: string; model?: string; sessionId?: string; cwd: string },
+  sessionArgs: string[],
+): string[] {
+  const modelArgs = vars.model ? (spec.modelArgs ?? []) : [];
+  const template = [...spec.args];
+  for (const [marker, list] of [
+    ["{modelArgs}", modelArgs],
+    ["{sessionArgs}", sessionArgs],
+  ] as const) {
+    const at = template.indexOf(marker);
+    if (at >= 0) {
+      template.splice(at, 1, ...list);
+    } else {
+      template.push(...list);
+    }
+  }
+
+  const filled: Record<string, string> = {
+    prompt: vars.prompt,
+    model: vars.model ?? "",
+    sessionId: vars.sessionId ?? "",
+    cwd: vars.cwd,
+  };
+  const args = template.map((arg) => fillPlaceholders(arg, filled));
+  if (!template.some((arg) => arg.includes("{prompt}"))) {
+    args.push(vars.prompt);
+  }
+  return args;
+}
+
+/**
+ * Session capabilities derived from `custom.session.mode`.
+ */
+export function customSessionCapabilities(
+  spec: CustomEngineConfig | undefined,
+): EngineSessionCapabilities {
+  const mode = spec?.session?.mode ?? "none";
+  return {
+    supportsUserIsolation: mode === "user",
+    defaultMode: mode === "user" ? "user" : "shared",
+    sharedContinuationRequiresMarker: mode === "shared",
+  };
+}
+
+/**
+ * Parse the CLI output according to `custom.output`.
+ */
+export function parseCustomOutput(
+  spec: CustomEngineConfig,
+  stdout: string,
+  stderr: string,
+): { text: string; sessionId?: string } {
+  const output = spec.output ?? { format: "text" };
+
+  if (output.format === "jsonl") {
+    let text = "";
+    let sessionId: string | undefined;
+    for (const line of stdout.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      try {
+        const event = JSON.parse(trimmed);
+        if (output.textPath) {
+          const value = readPath(event, output.textPath);
+          if (typeof value === "string" && value) text = value;
+        }
+        if (output.sessionPath) {
+          const value = readPath(event, output.sessionPath);
+          if (typeof value === "string" && value) sessionId = value;
+        }
+      } catch {
+        // Non-JSON line — ignore
+      }
+    }
+    return { text, sessionId };
+  }
+
+  let sessionId: string | undefined;
+  if (output.sessionRegex) {
+    const match = new RegExp(output.sessionRegex).exec(`${stdout}\n${stderr}`);
+    sessionId = match?.[1];
+  }
+  return { text: stdout.trim(), sessionId };
+}
+
+/**
+ * Adapter for any agent CLI described in config (`engine.custom`).
+ * Lets teams plug in CLIs HAL has no dedicated adapter for (aider, goose, ...).
+ */
+export function createCustomAdapter(
+  command?: string,
+  model?: string,
+  spec?: CustomEngineConfig,
+): EngineAdapter {
+  if (!spec) {
+    throw new Error(
+      'Engine "custom" requires an engine.custom block describing the CLI.',
+    );
+  }
+  if (!command) {
+    throw new Error('Engine "custom" requires engine.command.');
+  }
+  const cmd = command;
+  const name = spec.displayName ?? cmd;
+  const sessionMode = spec.session?.mode ?? "none";
+
+  return {
+    name,
+    command: cmd,
+    sessionCapabilities: customSessionCapabilities(spec),
+
+    check() {
+      const versionArgs = (spec.versionArgs ?? ["--version"]).join(" ");
+      try {
+        execSync(`${cmd} ${versionArgs}`, { stdio: "pipe" });
+      } catch {
+        throw new Error(
+          `${name} CLI command "${cmd}" not found or not executable. ` +
+            `Please ensure it is installed and the command is in your PATH.`,
+        );
+      }
+    },
+
+    async execute(
+      options: EngineExecuteOptions,
+      ctx: ProjectContext,
+    ): Promise<EngineResult> {
+      const { sessionId, continueSession, forceNoSession, onProgress, signal } =
+        options;
+      const { config, logger } = ctx;
+
+      const fullPrompt = await buildContextualPrompt(options, ctx);
+      const cwd = config.cwd;
+
+      const sessionEnabled =
+        sessionMode !== "none" &&
+        config.engineSession !== false &&
+        !forceNoSession &&
+        continueSession !== false;
+      let sessionArgs: string[] = [];
+      if (sessionEnabled && sessionId) {
+        const resumeById =
+          sessionMode === "user" &&
+          config.engineSession !== "shared" &&
+          sessionId !== SHARED_SESSION_MARKER;
+        sessionArgs = resumeById
+          ? (spec.session?.resumeArgs ?? [])
+          : (spec.session?.continueArgs ?? []);
+      }
+
+      const args = buildCustomArgs(
+        spec,
+        { prompt: fullPrompt, model, sessionId: sessionId ?? undefined, cwd },
+        sessionArgs,
+      );
+
+      logger.info(
+        {
+          command: cmd,
+          // The prompt may be embedded in an arg (`--message={prompt}`)
+          args: fullPrompt
+            ? args.map((a) => a.replaceAll(fullPrompt, "<prompt>"))
+            : args,
+          cwd,
+          session: sessionArgs.length > 0,
+        },
+        `Executing ${name} CLI`,
+      );
+
+      return new Promise((resolve) => {
+        const proc = spawnEngineProcess(
+          cmd,
+          args,
+          { cwd, env: process.env, stdio: ["ignore", "pipe", "pipe"] },
+          config.engineEnvFile,
+        );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
+
+        let stdout = "";
+        let stderrOutput = "";
+
+        proc.stdout.on("data", (data: Buffer) => {
+          const chunk = data.toString();
+          stdout += chunk;
+          if (onProgress && chunk.trim()) {
+            onProgress(`${name} is responding...`);
+          }
+        });
+
+        proc.stderr.on("data", (data: Buffer) => {
+          const chunk = data.toString().trim();
+          if (chunk) {
+            stderrOutput += `${chunk}\n`;
+            logger.debug({ stderr: chunk }, `${name} stderr`);
+          }
+        });
+
+        proc.on("close", (code) => {
+          watch.dispose();
+          logger.debug({ code }, `${name} process closed`);
+          const parsed = parseCustomOutput(spec, stdout, stderrOutput);
+
+          if (watch.aborted) {
+            logger.info(`${name} process stopped by abort signal`);
+            resolve(abortedEngineResult(parsed.text));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              `${name} process killed after timeout`,
+            );
+            resolve(timedOutEngineResult(parsed.text, config.engineTimeoutMs));
+          } else if (code === 0) {
+            let resultSessionId: string | undefined;
+            if (sessionMode !== "none" && config.engineSession !== false) {
+              resultSessionId =
+                sessionMode === "user" && config.engineSession !== "shared"
+                  ? parsed.sessionId
+                  : SHARED_SESSION_MARKER;
+            }
+            resolve({
+              success: true,
+              output: parsed.text || "No response received",
+              sessionId: resultSessionId,
+            });
+          } else {
+            resolve({
+              success: false,
+              output: parsed.text,
+              error: stderrOutput.trim() || `${name} exited with code ${code}`,
+            });
+          }
+        });
+
+        proc.on("error", (err) => {
+          watch.dispose();
+          logger.error({ error: err.message }, `${name} process error`);
+          resolve({
+            success: false,
+            output: "",
+            error: `Failed to start ${cmd}: ${err.message}`,
+          });
+        });
+      });
+    },
+
+    parse(result: EngineResult): ParsedResponse {
+      if (!result.success) {
+        return { text: result.error || "An unknown error occurred" };
+      }
+      return { text: result.output || "No response received" };
+    },
+
+    skillsDirs(projectCwd: string): string[] {
+      return spec.skillsDir ? [join(projectCwd, spec.skillsDir)] : [];
+    },
+
+    instructionsFile(): string {
+      return spec.instructionsFile ?? "AGENTS.md";
+    },
+  };
+}
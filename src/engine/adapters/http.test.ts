@@ -0,0 +1,225 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import pino from "pino";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ResolvedProjectConfig } from "../../config.js";
+import type { ProjectContext } from "../../types.js";
+import { getSessionId, saveSessionId } from "../../user/setup.js";
+import type { EngineAdapter, HttpEngineConfig } from "../types.js";
+import { createHttpAdapter } from "./http.js";
+
+interface Recorded {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: { messages: Array<{ role: string; content: string }> };
+}
+
+/** Local stub that records requests and answers with canned SSE events. */
+async function startStub(
+  events: (req: Recorded) => unknown[],
+  status = 200,
+): Promise<{ server: Server; baseUrl: string; requests: Recorded[] }> {
+  const requests: Recorded[] = [];
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const recorded = {
+        url: req.url ?? "",
+        headers: req.headers,
+        body: JSON.parse(raw),
+      };
+      requests.push(recorded);
+      if (status !== 200) {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "quota exceeded" } }));
+        return;
+      }
+      res.writeHead(200, { "content-type": "text/event-stream" });
+      for (const event of events(recorded)) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end("data: [DONE]\n\n");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}/v1`, requests };
+}
+
+function openaiReply(text: string): unknown[] {
+  const [head, tail] = [text.slice(0, 3), text.slice(3)];
+  return [
+    { choices: [{ delta: { content: head } }] },
+    { choices: [{ delta: { content: tail } }] },
+    { choices: [], usage: { prompt_tokens: 12, completion_tokens: 5 } },
+  ];
+}
+
+function anthropicReply(text: string): unknown[] {
+  return [
+    { type: "message_start", message: { usage: { input_tokens: 20 } } },
+    { type: "content_block_delta", delta: { type: "text_delta", text } },
+    { type: "message_delta", usage: { output_tokens: 7 } },
+    { type: "message_stop" },
+  ];
+}
+
+function projectContext(
+  engine: EngineAdapter,
+  overrides: Partial<ResolvedProjectConfig> = {},
+): ProjectContext {
+  return {
+    config: {
+      engine: "http",
+      engineSession: true,
+      engineTimeoutMs: undefined,
+      ...overrides,
+    } as ResolvedProjectConfig,
+    logger: pino({ level: "silent" }),
+    bootContext: { shellCache: {} },
+    engine,
+  };
+}
+
+describe("http engine adapter", () => {
+  let userDir: string;
+  let server: Server | undefined;
+
+  beforeEach(async () => {
+    userDir = await mkdtemp(join(tmpdir(), "hal-http-"));
+  });
+
+  afterEach(async () => {
+    server?.close();
+    server = undefined;
+    await rm(userDir, { recursive: true, force: true });
+  });
+
+  async function run(
+    http: HttpEngineConfig,
+    prompt: string,
+    overrides: Partial<ResolvedProjectConfig> = {},
+  ) {
+    const adapter = createHttpAdapter(undefined, "test-model", http);
+    const ctx = projectContext(adapter, overrides);
+    const partials: string[] = [];
+    const sessionId = await getSessionId(userDir);
+    const result = await adapter.execute(
+      {
+        prompt,
+        userDir,
+        sessionId,
+        onPartialText: (text) => partials.push(text),
+      },
+      ctx,
+    );
+    if (result.success && result.sessionId) {
+      await saveSessionId(userDir, result.sessionId);
+    }
+    return { result, partials };
+  }
+
+  it("streams an OpenAI-compatible reply and keeps history in session.json", async () => {
+    const stub = await startStub((req) =>
+      openaiReply(`echo ${req.body.messages.length}`),
+    );
+    server = stub.server;
+    const http: HttpEngineConfig = {
+      api: "openai",
+      baseUrl: stub.baseUrl,
+      apiKey: "sk-test",
+      systemPrompt: "Be brief.",
+    };
+
+    const first = await run(http, "hello");
+    expect(first.result.success).toBe(true);
+    expect(first.result.output).toBe("echo 2");
+    expect(first.partials).toEqual(["ech", "echo 2"]);
+    expect(first.result.usage).toEqual({ inputTokens: 12, outputTokens: 5 });
+    expect(stub.requests[0].url).toBe("/v1/chat/completions");
+    expect(stub.requests[0].headers.authorization).toBe("Bearer sk-test");
+    expect(stub.requests[0].body).toMatchObject({
+      model: "test-model",
+      stream: true,
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "hello" },
+      ],
+    });
+
+    const second = await run(http, "again");
+    expect(second.result.sessionId).toBe(first.result.sessionId);
+    expect(stub.requests[1].body.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "hello" },
+      { role: "assistant", content: "echo 2" },
+      { role: "user", content: "again" },
+    ]);
+
+    const session = JSON.parse(
+      await readFile(join(userDir, "session.json"), "utf-8"),
+    );
+    expect(session.history).toHaveLength(4);
+  });
+
+  it("talks to the Anthropic Messages API", async () => {
+    const stub = await startStub(() => anthropicReply("Hi there"));
+    server = stub.server;
+
+    const { result } = await run(
+      {
+        api: "anthropic",
+        baseUrl: stub.baseUrl,
+        apiKey: "ak-test",
+        systemPrompt: "Be brief.",
+      },
+      "hello",
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("Hi there");
+    expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 7 });
+    expect(stub.requests[0].url).toBe("/v1/messages");
+    expect(stub.requests[0].headers["x-api-key"]).toBe("ak-test");
+    expect(stub.requests[0].body).toMatchObject({
+      model: "test-model",
+      system: "Be brief.",
+      max_tokens: 4096,
+      messages: [{ role: "user", content: "hello" }],
+    });
+  });
+
+  it("does not keep history when sessions are disabled", async () => {
+    const stub = await startStub(() => openaiReply("stateless"));
+    server = stub.server;
+    const http: HttpEngineConfig = { api: "openai", baseUrl: stub.baseUrl };
+
+    const first = await run(http, "one", { engineSession: false });
+    await run(http, "two", { engineSession: false });
+
+    expect(first.result.sessionId).toBeUndefined();
+    expect(stub.requests[1].body.messages).toEqual([
+      { role: "user", content: "two" },
+    ]);
+  });
+
+  it("reports HTTP errors with the status code", async () => {
+    const stub = await startStub(() => [], 429);
+    server = stub.server;
+
+    const { result } = await run(
+      { api: "openai", baseUrl: stub.baseUrl },
+      "hello",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("HTTP 429");
+    expect(result.error).toContain("quota exceeded");
+  });
+});
@@ -0,0 +1,351 @@
+import { randomUUID } from "node:crypto";
+import type { ProjectContext } from "../../types.js";
+import {
+  getSessionHistory,
+  type SessionMessage,
+  saveSessionHistory,
+} from "../../user/setup.js";
+import { buildContextualPrompt } from "../prompt.js";
+import { abortedEngineResult, timedOutEngineResult } from "../spawn.js";
+import type {
+  EngineAdapter,
+  EngineExecuteOptions,
+  EngineResult,
+  EngineUsage,
+  HttpEngineConfig,
+  ParsedResponse,
+} from "../types.js";
+
+const DEFAULT_BASE_URL: Record<HttpEngineConfig["api"], string> = {
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com/v1",
+};
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_MAX_HISTORY = 40;
+
+/** Fields read from OpenAI and Anthropic streaming events. */
+interface SseEvent {
+  type?: string;
+  error?: { message?: string };
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+interface StreamState {
+  text: string;
+  usage: EngineUsage;
+  error?: string;
+}
+
+/**
+ * Keep the last `max` messages, starting on a user turn (the Anthropic API
+ * rejects conversations that open with an assistant message).
+ */
+function trimHistory(history: SessionMessage[], max: number): SessionMessage[] {
+  const trimmed = history.slice(-max);
+  while (trimmed.length > 0 && trimmed[0].role !== "user") trimmed.shift();
+  return trimmed;
+}
+
+function buildRequest(
+  http: HttpEngineConfig,
+  model: string,
+  messages: SessionMessage[],
+): { path: string; headers: Record<string, string>; body: unknown } {
+  if (http.api === "anthropic") {
+    return {
+      path: "/messages",
+      headers: {
+        "anthropic-version": ANTHROPIC_VERSION,
+        ...(http.apiKey ? { "x-api-key": http.apiKey } : {}),
+      },
+      body: {
+        model,
+        max_tokens: http.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(http.systemPrompt ? { system: http.systemPrompt } : {}),
+        messages,
+        stream: true,
+      },
+    };
+  }
+  return {
+    path: "/chat/completions",
+    headers: http.apiKey ? { authorization: `Bearer ${http.apiKey}` } : {},
+    body: {
+      model,
+      ...(http.maxTokens ? { max_tokens: http.maxTokens } : {}),
+      messages: http.systemPrompt
+        ? [{ role: "system", content: http.systemPrompt }, ...messages]
+        : messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+  };
+}
+
+/**
+ * Apply one SSE `data:` payload to the stream state.
+ * Returns true when the payload carried reply text.
+ */
+function applyEvent(
+  api: HttpEngineConfig["api"],
+  event: SseEvent,
+  state: StreamState,
+): boolean {
+  if (event.error) {
+    state.error = event.error.message ?? JSON.stringify(event.error);
+    return false;
+  }
+
+  if (api === "anthropic") {
+    switch (event.type) {
+      case "message_start":
+        state.usage.inputTokens = event.message?.usage?.input_tokens;
+        return false;
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          state.text += event.delta.text;
+          return true;
+        }
+        return false;
+      case "message_delta":
+        if (event.usage?.output_tokens !== undefined) {
+          state.usage.outputTokens = event.usage.output_tokens;
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  if (event.usage) {
+    state.usage.inputTokens = event.usage.prompt_tokens;
+    state.usage.outputTokens = event.usage.completion_tokens;
+  }
+  const delta = event.choices?.[0]?.delta?.content;
+  if (typeof delta === "string" && delta) {
+    state.text += delta;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Adapter that calls an LLM HTTP API directly (no CLI): OpenAI-compatible
+ * Chat Completions or Anthropic Messages, always streamed over SSE.
+ * The conversation is kept in the user's session.json and replayed on each
+ * request, so it is chat-only: the model cannot touch the project files.
+ */
+export function createHttpAdapter(
+  _command?: string,
+  model?: string,
+  http: HttpEngineConfig = { api: "openai" },
+): EngineAdapter {
+  const baseUrl = (http.baseUrl ?? DEFAULT_BASE_URL[http.api]).replace(
+    /\/+$/,
+    "",
+  );
+  const name = http.api === "anthropic" ? "Anthropic API" : "OpenAI API";
+
+  return {
+    name,
+    command: baseUrl,
+    sessionCapabilities: {
+      supportsUserIsolation: true,
+      defaultMode: "user",
+      sharedContinuationRequiresMarker: false,
+    },
+
+    check() {
+      if (!model) {
+        throw new Error(
+          'Engine "http" requires engine.model (or a providers.http default).',
+        );
+      }
+      try {
+        new URL(baseUrl);
+      } catch {
+        throw new Error(
+          `Engine "http": invalid engine.http.baseUrl "${baseUrl}".`,
+        );
+      }
+    },
+
+    async execute(
+      options: EngineExecuteOptions,
+      ctx: ProjectContext,
+    ): Promise<EngineResult> {
+      const {
+        userDir,
+        sessionId,
+        continueSession,
+        forceNoSession,
+        onProgress,
+        onPartialText,
+        signal,
+      } = options;
+      const { config, logger } = ctx;
+
+      if (!model) {
+        return {
+          success: false,
+          output: "",
+          error: 'Engine "http" requires engine.model',
+        };
+      }
+
+      const keepSession = config.engineSession !== false && !forceNoSession;
+      const resume = keepSession && continueSession !== false && !!sessionId;
+      const maxHistory = http.maxHistory ?? DEFAULT_MAX_HISTORY;
+      const history =
+        resume && sessionId ? await getSessionHistory(userDir, sessionId) : [];
+
+      const fullPrompt = await buildContextualPrompt(options, ctx);
+      const messages = trimHistory(
+        [...history, { role: "user", content: fullPrompt }],
+        maxHistory + 1,
+      );
+      const request = buildRequest(http, model, messages);
+      const url = `${baseUrl}${request.path}`;
+
+      logger.info(
+        { url, model, history: messages.length - 1 },
+        `Calling ${name}`,
+      );
+
+      const controller = new AbortController();
+      let aborted = false;
+      let timedOut = false;
+      const onAbort = () => {
+        aborted = true;
+        controller.abort();
+      };
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const timer = config.engineTimeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, config.engineTimeoutMs)
+        : undefined;
+
+      const state: StreamState = { text: "", usage: {} };
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: { "content-type": "application/json", ...request.headers },
+          body: JSON.stringify(request.body),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const body = (await response.text()).slice(0, 500);
+          return {
+            success: false,
+            output: "",
+            error: `${name} returned HTTP ${response.status}: ${body}`,
+          };
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = "";
+        const handleLine = (line: string) => {
+          if (!line.startsWith("data:")) return;
+          const data = line.slice(5).trim();
+          if (!data || data === "[DONE]") return;
+          try {
+            const event = JSON.parse(data) as SseEvent;
+            if (applyEvent(http.api, event, state)) {
+              if (onProgress && state.text) {
+                onProgress(`${name} is responding...`);
+              }
+              onPartialText?.(state.text);
+            }
+          } catch {
+            logger.debug({ line }, "Ignoring non-JSON SSE line");
+          }
+        };
+        for await (const chunk of response.body) {
+          buffer += decoder.decode(chunk, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) handleLine(line.trim());
+        }
+        handleLine(buffer.trim());
+      } catch (err) {
+        if (aborted) {
+          logger.info(`${name} request stopped by abort signal`);
+          return abortedEngineResult(state.text);
+        }
+        if (timedOut) {
+          logger.warn(
+            { timeoutMs: config.engineTimeoutMs },
+            `${name} request aborted after timeout`,
+          );
+          return timedOutEngineResult(state.text, config.engineTimeoutMs);
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error({ error: message, url }, `${name} request error`);
+        return {
+          success: false,
+          output: state.text,
+          error: `Failed to reach ${url}: ${message}`,
+        };
+      } finally {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
+
+      if (state.error) {
+        return { success: false, output: state.text, error: state.error };
+      }
+
+      let resultSessionId: string | undefined;
+      if (keepSession) {
+        resultSessionId = resume && sessionId ? sessionId : randomUUID();
+        await saveSessionHistory(
+          userDir,
+          resultSessionId,
+          trimHistory(
+            [...messages, { role: "assistant", content: state.text }],
+            maxHistory,
+          ),
+        );
+      }
+
+      return {
+        success: true,
+        output: state.text || "No response received",
+        sessionId: resultSessionId,
+        usage: state.usage,
+      };
+    },
+
+    parse(result: EngineResult): ParsedResponse {
+      if (!result.success) {
+        return { text: result.error || "An unknown error occurred" };
+      }
+      return {
+        text: result.output || "No response received",
+        sessionId: result.sessionId,
+        ...result.usage,
+      };
+    },
+
+    skillsDirs(): string[] {
+      return [];
+    },
+
+    instructionsFile(): string {
+      return "AGENTS.md";
+    },
+  };
+}
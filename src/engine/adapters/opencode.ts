@@ -2,7 +2,12 @@ import { execSync } from "node:child_process";
 import { join } from "node:path";
 import type { ProjectContext } from "../../types.js";
 import { buildContextualPrompt } from "../prompt.js";
-import { spawnEngineProcess } from "../spawn.js";
+import {
+  abortedEngineResult,
+  spawnEngineProcess,
+  timedOutEngineResult,
+  watchEngineProcess,
+} from "../spawn.js";
 import type {
   EngineAdapter,
   EngineExecuteOptions,
@@ -30,6 +35,7 @@ export function createOpencodeAdapter(
       defaultMode: "shared",
       sharedContinuationRequiresMarker: true,
     },
+    supportsModes: true,
 
     check() {
       try {
@@ -46,7 +52,7 @@ export function createOpencodeAdapter(
       options: EngineExecuteOptions,
       ctx: ProjectContext,
     ): Promise<EngineResult> {
-      const { onProgress, continueSession, sessionId } = options;
+      const { onProgress, continueSession, sessionId, signal } = options;
       const { config, logger } = ctx;
 
       const fullPrompt = await buildContextualPrompt(options, ctx);
@@ -64,6 +70,10 @@ export function createOpencodeAdapter(
       if (continueSessionRequested) {
         args.push("-c");
       }
+      // Permission mode (see /mode): the built-in plan agent cannot edit
+      if (options.mode === "plan" || options.mode === "readonly") {
+        args.push("--agent", "plan");
+      }
       args.push(fullPrompt);
 
       const cwd = config.cwd;
@@ -90,6 +100,10 @@ export function createOpencodeAdapter(
           { cwd, env, stdio: ["ignore", "pipe", "pipe"] },
           config.engineEnvFile,
         );
+        const watch = watchEngineProcess(proc, {
+          signal,
+          timeoutMs: config.engineTimeoutMs,
+        });
 
         let stdout = "";
         let stderrOutput = "";
@@ -111,8 +125,20 @@ export function createOpencodeAdapter(
         });
 
         proc.on("close", (code) => {
+          watch.dispose();
           logger.debug({ code }, "OpenCode process closed");
-          if (code === 0) {
+          if (watch.aborted) {
+            logger.info("OpenCode process stopped by abort signal");
+            resolve(abortedEngineResult(stdout.trim()));
+          } else if (watch.timedOut) {
+            logger.warn(
+              { timeoutMs: config.engineTimeoutMs },
+              "OpenCode process killed after timeout",
+            );
+            resolve(
+              timedOutEngineResult(stdout.trim(), config.engineTimeoutMs),
+            );
+          } else if (code === 0) {
             resolve({
               success: true,
               output: stdout.trim() || "No response received",
@@ -128,6 +154,7 @@ export function createOpencodeAdapter(
         });
 
         proc.on("error", (err) => {
+          watch.dispose();
           logger.error({ error: err.message }, "OpenCode process error");
           resolve({
             success: false,
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { openApprovalEndpoint } from "./approvals.js";
+import type { ToolApprovalRequest } from "./types.js";
+
+function endpointUrl(mcpConfig: string): string {
+  return JSON.parse(mcpConfig).mcpServers.hal.url;
+}
+
+async function rpc(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+    },
+    body: JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : undefined };
+}
+
+describe("approval broker", () => {
+  it("answers the MCP handshake and lists the approve tool", async () => {
+    const endpoint = await openApprovalEndpoint(async () => ({ allow: true }));
+    const url = endpointUrl(endpoint.mcpConfig);
+    try {
+      const init = await rpc(url, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-06-18" },
+      });
+      expect(init.body.result.protocolVersion).toBe("2025-06-18");
+
+      const notified = await rpc(url, {
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+      expect(notified.status).toBe(202);
+
+      const list = await rpc(url, {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/list",
+      });
+      expect(
+        list.body.result.tools.map((t: { name: string }) => t.name),
+      ).toEqual(["approve"]);
+    } finally {
+      endpoint.close();
+    }
+  });
+
+  it("returns the decision in Claude's permission prompt format", async () => {
+    const seen: ToolApprovalRequest[] = [];
+    const endpoint = await openApprovalEndpoint(async (request) => {
+      seen.push(request);
+      return request.toolName === "Bash"
+        ? { allow: false, message: "nope" }
+        : { allow: true };
+    });
+    const url = endpointUrl(endpoint.mcpConfig);
+    const call = (toolName: string, input: object) =>
+      rpc(url, {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: { name: "approve", arguments: { tool_name: toolName, input } },
+      }).then((r) => JSON.parse(r.body.result.content[0].text));
+
+    try {
+      expect(await call("Bash", { command: "rm -rf dist" })).toEqual({
+        behavior: "deny",
+        message: "nope",
+      });
+      expect(await call("Write", { file_path: "a.txt" })).toEqual({
+        behavior: "allow",
+        updatedInput: { file_path: "a.txt" },
+      });
+      expect(seen[0]).toEqual({
+        toolName: "Bash",
+        input: { command: "rm -rf dist" },
+      });
+    } finally {
+      endpoint.close();
+    }
+  });
+
+  it("rejects closed and unknown endpoints", async () => {
+    const endpoint = await openApprovalEndpoint(async () => ({ allow: true }));
+    const url = endpointUrl(endpoint.mcpConfig);
+    endpoint.close();
+    const res = await rpc(url, { jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(404);
+  });
+});
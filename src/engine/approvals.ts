@@ -0,0 +1,223 @@
+import { randomBytes } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ToolApprovalDecision, ToolApprovalRequest } from "./types.js";
+
+/**
+ * Permission broker for engines that can delegate tool approvals to an MCP
+ * tool (Claude's `--permission-prompt-tool`).
+ *
+ * One MCP server (Streamable HTTP, JSON responses only) listens on
+ * 127.0.0.1 for the whole process. Each engine call opens its own endpoint,
+ * `/mcp/<random token>`, bound to the call's `approve` callback, and closes
+ * it when the call ends. The server exposes a single `approve` tool.
+ */
+
+const SERVER_NAME = "hal";
+const TOOL_NAME = "approve";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Value for Claude's `--permission-prompt-tool`. */
+export const PERMISSION_PROMPT_TOOL = `mcp__${SERVER_NAME}__${TOOL_NAME}`;
+
+type ApproveFn = (
+  request: ToolApprovalRequest,
+) => Promise<ToolApprovalDecision>;
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface ApprovalEndpoint {
+  /** MCP config naming the endpoint, for `--mcp-config`. */
+  mcpConfig: string;
+  /** Stop routing requests to this call's callback. */
+  close: () => void;
+}
+
+const endpoints = new Map<string, ApproveFn>();
+let listening: Promise<number> | undefined;
+
+const TOOL_DEFINITION = {
+  name: TOOL_NAME,
+  description:
+    "Ask the Telegram user to approve or deny a tool call. Returns the decision as JSON.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tool_name: { type: "string" },
+      input: { type: "object" },
+      tool_use_id: { type: "string" },
+    },
+    required: ["tool_name", "input"],
+  },
+};
+
+/** Claude's permission-prompt-tool reply format. */
+function decisionPayload(
+  decision: ToolApprovalDecision,
+  input: Record<string, unknown>,
+): string {
+  return JSON.stringify(
+    decision.allow
+      ? { behavior: "allow", updatedInput: input }
+      : { behavior: "deny", message: decision.message },
+  );
+}
+
+async function handleMessage(
+  message: JsonRpcMessage,
+  approve: ApproveFn,
+): Promise<object | undefined> {
+  // Notifications (e.g. notifications/initialized) get no response
+  if (message.id === undefined || message.id === null) return undefined;
+  const reply = (result: object) => ({
+    jsonrpc: "2.0",
+    id: message.id,
+    result,
+  });
+
+  switch (message.method) {
+    case "initialize":
+      return reply({
+        protocolVersion: message.params?.protocolVersion ?? "2025-03-26",
+        capabilities: { tools: {} },
+        serverInfo: { name: SERVER_NAME, version: "1.0.0" },
+      });
+    case "ping":
+      return reply({});
+    case "tools/list":
+      return reply({ tools: [TOOL_DEFINITION] });
+    case "tools/call": {
+      const args = (message.params?.arguments ?? {}) as {
+        tool_name?: unknown;
+        input?: unknown;
+      };
+      const input =
+        args.input && typeof args.input === "object"
+          ? (args.input as Record<string, unknown>)
+          : {};
+      const decision = await approve({
+        toolName: String(args.tool_name ?? "unknown"),
+        input,
+      });
+      return reply({
+        content: [{ type: "text", text: decisionPayload(decision, input) }],
+      });
+    }
+    default:
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: -32601, message: `Method not found: ${message.method}` },
+      };
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const token = req.url?.match(/^\/mcp\/([\w-]+)$/)?.[1];
+  const approve = token ? endpoints.get(token) : undefined;
+  if (!approve) {
+    res.writeHead(404).end();
+    return;
+  }
+  if (req.method !== "POST") {
+    // No server-initiated stream
+    res.writeHead(405, { Allow: "POST" }).end();
+    return;
+  }
+
+  let body: JsonRpcMessage | JsonRpcMessage[];
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+  const responses = (
+    await Promise.all(messages.map((m) => handleMessage(m, approve)))
+  ).filter((r) => r !== undefined);
+  if (responses.length === 0) {
+    res.writeHead(202).end();
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(Array.isArray(body) ? responses : responses[0]));
+}
+
+/** Start the shared server on first use; resolves with its port. */
+function listen(): Promise<number> {
+  listening ??= new Promise((resolve, reject) => {
+    const server = createServer((req, res) => {
+      handleRequest(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    server.on("error", (err) => {
+      listening = undefined;
+      reject(err);
+    });
+    server.listen(0, "127.0.0.1", () => {
+      // Never keep the process alive just for the broker
+      server.unref();
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+  return listening;
+}
+
+/**
+ * Open an endpoint for one engine call. Every `approve` tool call made
+ * through it is answered by `approve`.
+ */
+export async function openApprovalEndpoint(
+  approve: ApproveFn,
+): Promise<ApprovalEndpoint> {
+  const port = await listen();
+  const token = randomBytes(16).toString("hex");
+  endpoints.set(token, approve);
+  return {
+    mcpConfig: JSON.stringify({
+      mcpServers: {
+        [SERVER_NAME]: {
+          type: "http",
+          url: `http://127.0.0.1:${port}/mcp/${token}`,
+        },
+      },
+    }),
+    close: () => {
+      endpoints.delete(token);
+    },
+  };
+}
@@ -3,7 +3,8 @@ import type { EngineName } from "./types.js";
 import { ENGINE_NAMES } from "./types.js";
 
 /** Default CLI command per engine (for availability check and adapter). */
-const DEFAULT_ENGINE_COMMAND: Record<EngineName, string> = {
+/** Custom and http have no default command, so they are never discovered. */
+const DEFAULT_ENGINE_COMMAND: Partial<Record<EngineName, string>> = {
   claude: "claude",
   copilot: "copilot",
   codex: "codex",
@@ -12,6 +13,14 @@ const DEFAULT_ENGINE_COMMAND: Record<EngineName, string> = {
   antigravity: "gemini",
 };
 
+/**
+ * Default CLI command for an engine, or undefined when it has none
+ * (custom, http).
+ */
+export function getDefaultEngineCommand(name: EngineName): string | undefined {
+  return DEFAULT_ENGINE_COMMAND[name];
+}
+
 /**
  * Returns true if the given CLI command is available (runs `command --version`).
  * Fast check only; does not run any heavy or network operation.
@@ -39,7 +48,7 @@ export function getAvailableEnginesFromCli(): EngineName[] {
   const available: EngineName[] = [];
   for (const name of ENGINE_NAMES) {
     const command = DEFAULT_ENGINE_COMMAND[name];
-    if (isCliAvailable(command, 2000)) available.push(name);
+    if (command && isCliAvailable(command, 2000)) available.push(name);
   }
   return available;
 }
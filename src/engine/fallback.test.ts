@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { isRetryableEngineFailure } from "./fallback.js";
+
+function failure(error: string, output = "") {
+  return { success: false, output, error };
+}
+
+describe("isRetryableEngineFailure", () => {
+  it("retries start failures and provider refusals before any output", () => {
+    expect(
+      isRetryableEngineFailure(failure("Failed to start claude: ENOENT")),
+    ).toBe(true);
+    expect(
+      isRetryableEngineFailure(
+        failure("Credit balance is too low to access the API"),
+      ),
+    ).toBe(true);
+    expect(
+      isRetryableEngineFailure(failure("Error: Rate limit exceeded (429)")),
+    ).toBe(true);
+    expect(
+      isRetryableEngineFailure(failure("Not logged in. Please run /login")),
+    ).toBe(true);
+  });
+
+  it("keeps task errors that mention logins or HTTP codes final", () => {
+    expect(
+      isRetryableEngineFailure(
+        failure("Process exited with code 1: could not fix the login page"),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEngineFailure(
+        failure("Request to https://api.example.com failed: 403 Forbidden"),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEngineFailure(failure("Tests failed in the credit card form")),
+    ).toBe(false);
+  });
+
+  it("retries Claude's is_error result, whose output repeats the error", () => {
+    // Result event as printed by `claude -p --output-format stream-json`
+    const event = {
+      type: "result",
+      subtype: "success",
+      is_error: true,
+      duration_ms: 412,
+      num_turns: 1,
+      result: "Claude AI usage limit reached|1760986800",
+      session_id: "3f2c9a4e-7d1b-4c55-9a0e-5b8f2d1c6e70",
+      total_cost_usd: 0,
+    };
+    // What the Claude adapter builds from it when no assistant text came first
+    expect(
+      isRetryableEngineFailure({
+        success: !event.is_error,
+        output: event.result,
+        error: event.result,
+      }),
+    ).toBe(true);
+  });
+
+  it("never repeats a run that already produced output", () => {
+    expect(
+      isRetryableEngineFailure(
+        failure("Rate limit exceeded", "I updated src/app.ts and then…"),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import type { Logger } from "pino";
+import type { ProjectContext } from "../types.js";
+import type {
+  EngineAdapter,
+  EngineExecuteOptions,
+  EngineName,
+  EngineResult,
+  ParsedResponse,
+} from "./types.js";
+
+/**
+ * Provider refusals of the call itself (quota, rate limit, billing), as the
+ * engine CLIs word them. Narrow on purpose: a task error that merely mentions
+ * a login page or an API's 403 must not match.
+ */
+const QUOTA_FAILURE =
+  /rate[ _]limit(ed|_error| exceeded| reached)|usage limit (reached|exceeded)|quota (exceeded|reached)|insufficient[_ ]quota|exceeded your current quota|too many requests|credit balance is too low|overloaded_error/i;
+
+/** The engine CLI is not logged in or its credentials are rejected. */
+export const AUTH_FAILURE =
+  /invalid (api key|x-api-key)|api key (is )?(missing|not set|not found|not valid)|not logged in|please (run \/?login|log in)|authentication_error|authentication failed|oauth token (has )?expired/i;
+
+/**
+ * Failures worth retrying on another engine: the CLI could not start, or the
+ * provider refused the call before the engine produced anything. A run that
+ * produced output did work (maybe edits): running it again elsewhere could
+ * apply them twice, so it is final, as is any other error. Output that only
+ * repeats the error (Claude's `is_error` result) is not work done.
+ */
+export function isRetryableEngineFailure(result: EngineResult): boolean {
+  if (result.success || result.aborted || result.timedOut) return false;
+  const error = result.error ?? "";
+  if (error.startsWith("Failed to start ")) return true;
+  const output = result.output.trim();
+  if (output && output !== error.trim()) return false;
+  return QUOTA_FAILURE.test(error) || AUTH_FAILURE.test(error);
+}
+
+export interface FallbackEngine {
+  name: EngineName;
+  adapter: EngineAdapter;
+  model: string | undefined;
+}
+
+/**
+ * Wrap the project's engine with an ordered list of fallback engines.
+ *
+ * - `check()` passes when at least one engine in the chain is available;
+ *   unavailable engines are skipped for the lifetime of the bot.
+ * - `execute()` runs the first available engine and moves to the next one
+ *   when the CLI cannot start or fails on quota/auth. A fallback answer is
+ *   stateless (no session is resumed nor persisted) and carries
+ *   `fallbackEngine` so the reply can say which engine answered.
+ *
+ * - In `plan` / `readonly` mode, fallbacks that cannot enforce the mode
+ *   (see `supportsModes`) are skipped.
+ *
+ * Everything else (name, session capabilities, skills, instructions file)
+ * is the primary engine's.
+ */
+export function createFallbackAdapter(
+  primaryName: EngineName,
+  primary: EngineAdapter,
+  fallbacks: FallbackEngine[],
+  logger: Logger,
+): EngineAdapter {
+  const chain: FallbackEngine[] = [
+    { name: primaryName, adapter: primary, model: undefined },
+    ...fallbacks,
+  ];
+  let available = chain;
+
+  function adapterFor(result: EngineResult): EngineAdapter {
+    return (
+      chain.find((e) => e.name === result.fallbackEngine)?.adapter ?? primary
+    );
+  }
+
+  return {
+    name: primary.name,
+    command: primary.command,
+    sessionCapabilities: primary.sessionCapabilities,
+    supportsModes: primary.supportsModes,
+
+    check() {
+      const errors: string[] = [];
+      available = chain.filter(({ name, adapter }) => {
+        try {
+          adapter.check();
+          return true;
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          errors.push(message);
+          logger.warn({ engine: name, error: message }, "Engine unavailable");
+          return false;
+        }
+      });
+      if (available.length === 0) {
+        throw new Error(errors.join("\n"));
+      }
+      if (available[0].name !== primaryName) {
+        logger.warn(
+          { engine: primaryName, fallback: available[0].name },
+          "Primary engine unavailable, using fallback",
+        );
+      }
+    },
+
+    async execute(
+      options: EngineExecuteOptions,
+      ctx: ProjectContext,
+    ): Promise<EngineResult> {
+      let result: EngineResult | undefined;
+      let previous: EngineName | undefined;
+
+      for (let i = 0; i < available.length; i++) {
+        const { name, adapter, model } = available[i];
+        const isPrimary = name === primaryName;
+
+        // Never fall back to an engine that would ignore a restricted mode
+        const restricted =
+          options.mode === "plan" || options.mode === "readonly";
+        if (!isPrimary && restricted && !adapter.supportsModes) continue;
+
+        if (result) {
+          logger.warn(
+            {
+              from: previous,
+              to: name,
+              error: result.error,
+            },
+            "Engine fallback",
+          );
+        }
+
+        previous = name;
+        result = isPrimary
+          ? await adapter.execute(options, ctx)
+          : await adapter.execute(
+              {
+                ...options,
+                sessionId: null,
+                continueSession: false,
+                forceNoSession: true,
+              },
+              {
+                ...ctx,
+                config: {
+                  ...ctx.config,
+                  engine: name,
+                  engineModel: model,
+                  engineSession: false,
+                },
+              },
+            );
+
+        if (!isPrimary) {
+          result = { ...result, sessionId: undefined, fallbackEngine: name };
+        }
+        if (!isRetryableEngineFailure(result)) return result;
+      }
+
+      return (
+        result ?? {
+          success: false,
+          output: "",
+          error: "No engine available",
+        }
+      );
+    },
+
+    parse(result: EngineResult): ParsedResponse {
+      return adapterFor(result).parse(result);
+    },
+
+    skillsDirs(projectCwd: string): string[] {
+      return primary.skillsDirs(projectCwd);
+    },
+
+    instructionsFile(): string {
+      return primary.instructionsFile();
+    },
+  };
+}
@@ -0,0 +1,310 @@
+import { exec } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { getDefaultEngineModel } from "../default-models.js";
+import type { ProjectContext } from "../types.js";
+import { appendUsage } from "../usage/store.js";
+import { getDefaultEngineCommand } from "./cli-available.js";
+import { AUTH_FAILURE } from "./fallback.js";
+import {
+  getCursorModelsFromCli,
+  getOpencodeModelsFromCli,
+} from "./opencode-models.js";
+import { getEngine } from "./registry.js";
+import { ENGINE_NAMES, type EngineName } from "./types.js";
+
+const execAsync = promisify(exec);
+
+const DRY_RUN_PROMPT = "Reply with the single word OK.";
+const DEFAULT_DRY_RUN_TIMEOUT_MS = 120_000;
+
+/** Outcome of the health check of one engine. */
+export interface EngineHealth {
+  engine: EngineName;
+  /** ok = answered the dry run (or passed the quick checks). */
+  status: "ok" | "missing" | "not configured" | "error";
+  /** Resolved binary path, or the API URL for the http engine. */
+  path?: string;
+  version?: string;
+  /** Inferred from the dry run; unknown when it was skipped or inconclusive. */
+  auth: "ok" | "failed" | "unknown";
+  /** Model HAL would pass; undefined = the CLI picks its own default. */
+  model?: string;
+  /** valid/invalid against a model list; unverified when there is none. */
+  modelStatus: "valid" | "invalid" | "unverified" | "cli default";
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface EngineHealthOptions {
+  /** Send a trivial prompt to measure latency and infer authentication. */
+  dryRun: boolean;
+  /** Limit for the dry run (default 120 s). */
+  timeoutMs?: number;
+  /** User the dry runs are recorded for in the usage log (default 0). */
+  userId?: number;
+}
+
+/** Command and model HAL would use for an engine in this project. */
+function engineSettings(
+  name: EngineName,
+  ctx: ProjectContext,
+): { command?: string; model?: string } {
+  const { config } = ctx;
+  if (name === config.engine) {
+    return {
+      command: config.engineCommand,
+      model:
+        config.engineModel ??
+        config.providerDefaultModel ??
+        getDefaultEngineModel(name),
+    };
+  }
+  const fallback = config.engineFallback.find((e) => e.name === name);
+  return {
+    command: fallback?.command,
+    model: fallback?.model ?? getDefaultEngineModel(name),
+  };
+}
+
+async function run(command: string, timeoutMs: number): Promise<string> {
+  const { stdout, stderr } = await execAsync(command, {
+    timeout: timeoutMs,
+    encoding: "utf-8",
+  });
+  return stdout.trim() || stderr.trim();
+}
+
+async function resolveBinary(command: string): Promise<string | undefined> {
+  try {
+    const path = (await run(`command -v ${command}`, 3000)).split("\n")[0];
+    return path || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readVersion(
+  command: string,
+  versionArgs: string[],
+): Promise<string | undefined> {
+  try {
+    const output = await run(`${command} ${versionArgs.join(" ")}`, 5000);
+    return output.split("\n")[0]?.trim().slice(0, 40) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function checkModel(
+  name: EngineName,
+  model: string | undefined,
+  command: string,
+  ctx: ProjectContext,
+): EngineHealth["modelStatus"] {
+  const { config } = ctx;
+  if (model === undefined) return "cli default";
+  if (name === config.engine && config.providerModels.length > 0) {
+    return config.providerModels.some((m) => m.name === model)
+      ? "valid"
+      : "invalid";
+  }
+  if (name === "opencode" || name === "cursor") {
+    const models =
+      name === "opencode"
+        ? getOpencodeModelsFromCli(config.cwd, command)
+        : getCursorModelsFromCli(config.cwd, command);
+    if (models.length === 0) return "unverified";
+    return models.some((m) => m.name === model) ? "valid" : "invalid";
+  }
+  // HAL's own defaults are known to be accepted by the CLI
+  if (model === getDefaultEngineModel(name)) return "valid";
+  return "unverified";
+}
+
+/**
+ * Check one engine as the given project would run it: binary path and
+ * version, model validity and, unless `dryRun` is false, the latency of a
+ * trivial stateless prompt (which also tells whether the CLI is logged in).
+ */
+export async function checkEngineHealth(
+  name: EngineName,
+  ctx: ProjectContext,
+  options: EngineHealthOptions,
+): Promise<EngineHealth> {
+  const { config } = ctx;
+  const { command: configuredCommand, model } = engineSettings(name, ctx);
+  const health: EngineHealth = {
+    engine: name,
+    status: "ok",
+    auth: "unknown",
+    model,
+    modelStatus: model === undefined ? "cli default" : "unverified",
+  };
+
+  if (name === "custom" && (!config.customEngine || !configuredCommand)) {
+    return { ...health, status: "not configured" };
+  }
+  const inUse =
+    name === config.engine ||
+    config.engineFallback.some((e) => e.name === name);
+  if (name === "http" && (!inUse || !model)) {
+    return { ...health, status: "not configured" };
+  }
+
+  let adapter: ReturnType<typeof getEngine>;
+  try {
+    adapter = getEngine(name, configuredCommand, model, {
+      custom: config.customEngine,
+      http: config.httpEngine,
+    });
+  } catch (err) {
+    return {
+      ...health,
+      status: "not configured",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  if (name === "http") {
+    health.path = adapter.command;
+  } else {
+    const command = configuredCommand ?? getDefaultEngineCommand(name) ?? name;
+    health.path = await resolveBinary(command);
+    if (!health.path) {
+      return { ...health, status: "missing", error: `"${command}" not found` };
+    }
+    health.version = await readVersion(
+      command,
+      (name === "custom" && config.customEngine?.versionArgs) || ["--version"],
+    );
+    health.modelStatus = checkModel(name, model, command, ctx);
+  }
+
+  if (!options.dryRun) return health;
+
+  const userDir = await mkdtemp(join(tmpdir(), "hal-health-"));
+  const startedAt = Date.now();
+  try {
+    const result = await adapter.execute(
+      {
+        prompt: DRY_RUN_PROMPT,
+        userDir,
+        sessionId: null,
+        continueSession: false,
+        forceNoSession: true,
+        mode: "readonly",
+      },
+      {
+        ...ctx,
+        engine: adapter,
+        config: {
+          ...config,
+          // Run in the empty temp dir: the dry run has no business in the project
+          cwd: userDir,
+          engine: name,
+          engineCommand: configuredCommand,
+          engineModel: model,
+          engineSession: false,
+          engineTimeoutMs: options.timeoutMs ?? DEFAULT_DRY_RUN_TIMEOUT_MS,
+        },
+      },
+    );
+    health.latencyMs = Date.now() - startedAt;
+    await appendUsage(config.dataDir, {
+      ts: new Date().toISOString(),
+      userId: options.userId ?? 0,
+      engine: name,
+      model,
+      ...result.usage,
+    }).catch((err) => ctx.logger.warn({ err }, "Failed to record usage"));
+    if (result.success) {
+      health.auth = "ok";
+    } else {
+      health.status = "error";
+      health.error = result.error || "Dry run failed";
+      if (AUTH_FAILURE.test(health.error)) health.auth = "failed";
+    }
+  } catch (err) {
+    health.status = "error";
+    health.error = err instanceof Error ? err.message : String(err);
+  } finally {
+    await rm(userDir, { recursive: true, force: true });
+  }
+  return health;
+}
+
+/**
+ * Check every engine HAL supports, one after the other (dry runs start
+ * full agent CLIs, so they are not run in parallel).
+ */
+export async function checkAllEngines(
+  ctx: ProjectContext,
+  options: EngineHealthOptions & {
+    onEngine?: (name: EngineName, index: number) => void;
+  },
+): Promise<EngineHealth[]> {
+  const results: EngineHealth[] = [];
+  for (const [index, name] of ENGINE_NAMES.entries()) {
+    options.onEngine?.(name, index);
+    results.push(await checkEngineHealth(name, ctx, options));
+  }
+  return results;
+}
+
+function formatLatency(ms: number | undefined): string {
+  if (ms === undefined) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function shortenPath(path: string | undefined): string {
+  if (!path) return "-";
+  const home = homedir();
+  return path.startsWith(home) ? `~${path.slice(home.length)}` : path;
+}
+
+/**
+ * Render health results as a plain-text table, followed by one line per
+ * engine that reported an error.
+ */
+export function renderEngineHealthTable(results: EngineHealth[]): string {
+  const header = [
+    "ENGINE",
+    "STATUS",
+    "AUTH",
+    "MODEL",
+    "LATENCY",
+    "VERSION",
+    "PATH",
+  ];
+  const rows = results.map((r) => [
+    r.engine,
+    r.status,
+    r.auth,
+    r.model ? `${r.model} (${r.modelStatus})` : r.modelStatus,
+    formatLatency(r.latencyMs),
+    r.version ?? "-",
+    shortenPath(r.path),
+  ]);
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((row) => row[i].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) =>
+        i === cells.length - 1 ? cell : cell.padEnd(widths[i]),
+      )
+      .join("  ");
+
+  const lines = [line(header), ...rows.map(line)];
+  const errors = results.filter((r) => r.error);
+  if (errors.length > 0) {
+    lines.push("");
+    for (const r of errors) {
+      lines.push(`${r.engine}: ${r.error?.split("\n")[0].slice(0, 200)}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -1,3 +1,4 @@
+export { createFallbackAdapter } from "./fallback.js";
 export { getEngine, getEngineSessionCapabilities } from "./registry.js";
 export type {
   EngineAdapter,
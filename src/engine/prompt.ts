@@ -1,7 +1,15 @@
 import { formatContextPrompt, resolveContext } from "../context/resolver.js";
 import { getDefaultEngineModel } from "../default-models.js";
 import type { ProjectContext } from "../types.js";
-import type { EngineExecuteOptions } from "./types.js";
+import type { EngineExecuteOptions, EngineMode } from "./types.js";
+
+/** Told to the agent so it does not fight the permission flags of the mode. */
+const MODE_NOTES: Record<EngineMode, string | undefined> = {
+  plan: "Plan mode. Investigate and reply with a plan; do not modify files or run commands that change anything.",
+  readonly:
+    "Read-only mode. You may read files and inspect the project; do not modify files or run commands that change anything.",
+  full: undefined,
+};
 
 /**
  * Build a fully-resolved prompt from engine execute options.
@@ -37,6 +45,11 @@ export async function buildContextualPrompt(
     contextualPrompt = formatContextPrompt(resolvedCtx, prompt);
   }
 
+  const modeNote = options.mode ? MODE_NOTES[options.mode] : undefined;
+  if (modeNote) {
+    contextualPrompt = `${contextualPrompt}\n\n[System: ${modeNote}]`;
+  }
+
   if (downloadsPath) {
     return `${contextualPrompt}\n\n[System: To send files to the user, write them to: ${downloadsPath}]`;
   }
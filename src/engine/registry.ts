@@ -3,14 +3,32 @@ import { createClaudeAdapter } from "./adapters/claude.js";
 import { createCodexAdapter } from "./adapters/codex.js";
 import { createCopilotAdapter } from "./adapters/copilot.js";
 import { createCursorAdapter } from "./adapters/cursor.js";
+import {
+  createCustomAdapter,
+  customSessionCapabilities,
+} from "./adapters/custom.js";
+import { createHttpAdapter } from "./adapters/http.js";
 import { createOpencodeAdapter } from "./adapters/opencode.js";
 import type {
+  CustomEngineConfig,
   EngineAdapter,
   EngineName,
   EngineSessionCapabilities,
+  HttpEngineConfig,
 } from "./types.js";
 
-type AdapterFactory = (command?: string, model?: string) => EngineAdapter;
+export interface EngineFactoryOptions {
+  /** CLI description, required by the "custom" engine */
+  custom?: CustomEngineConfig;
+  /** API settings, used by the "http" engine */
+  http?: HttpEngineConfig;
+}
+
+type AdapterFactory = (
+  command?: string,
+  model?: string,
+  options?: EngineFactoryOptions,
+) => EngineAdapter;
 
 const factories: Record<EngineName, AdapterFactory> = {
   claude: createClaudeAdapter,
@@ -19,6 +37,10 @@ const factories: Record<EngineName, AdapterFactory> = {
   opencode: createOpencodeAdapter,
   cursor: createCursorAdapter,
   antigravity: createAntigravityAdapter,
+  custom: (command, model, options) =>
+    createCustomAdapter(command, model, options?.custom),
+  http: (command, model, options) =>
+    createHttpAdapter(command, model, options?.http),
 };
 
 /**
@@ -26,11 +48,13 @@ const factories: Record<EngineName, AdapterFactory> = {
  * @param name - Engine identifier
  * @param command - Optional custom CLI command override
  * @param model - Optional model override (omit to use engine default)
+ * @param options - Engine-specific options (`custom`, `http`)
  */
 export function getEngine(
   name: EngineName,
   command?: string,
   model?: string,
+  options?: EngineFactoryOptions,
 ): EngineAdapter {
   const factory = factories[name];
   if (!factory) {
@@ -38,7 +62,7 @@ export function getEngine(
       `Unknown engine "${name}". Supported: ${Object.keys(factories).join(", ")}`,
     );
   }
-  return factory(command, model);
+  return factory(command, model, options);
 }
 
 /**
@@ -47,6 +71,8 @@ export function getEngine(
  */
 export function getEngineSessionCapabilities(
   name: EngineName,
+  options?: EngineFactoryOptions,
 ): EngineSessionCapabilities {
+  if (name === "custom") return customSessionCapabilities(options?.custom);
   return getEngine(name).sessionCapabilities;
 }
@@ -1,6 +1,17 @@
-import type { ChildProcessByStdio, SpawnOptions } from "node:child_process";
+import type {
+  ChildProcess,
+  ChildProcessByStdio,
+  SpawnOptions,
+} from "node:child_process";
 import { spawn } from "node:child_process";
 import type { Readable } from "node:stream";
+import type { EngineResult } from "./types.js";
+
+/** Time between SIGTERM and SIGKILL when stopping an engine process. */
+const KILL_GRACE_MS = 3_000;
+
+/** Engine processes that have not closed yet, for `stopEngineProcesses`. */
+const liveProcesses = new Set<ChildProcess>();
 
 /**
  * Wraps a string in single quotes and escapes embedded single quotes.
@@ -17,6 +28,11 @@ function shellQuote(s: string): string {
  * Returns `ChildProcessByStdio<null, Readable, Readable>` so callers can access
  * `.stdout` and `.stderr` without null checks.
  *
+ * The child is spawned `detached` so it leads its own process group: stopping
+ * it via `killProcessTree` also reaches the tools it spawned (shells, test
+ * runners, ...). Being detached, it no longer gets the terminal's Ctrl-C:
+ * `stopEngineProcesses` stops the live ones on shutdown.
+ *
  * - No envFilePath: behaves exactly like `spawn(cmd, args, options)`.
  * - With envFilePath: runs `sh -c "set -a; . '<envFile>'; set +a; exec '<cmd>' <args>"`.
  *   Variables from the sourced file are exported into the command's environment.
@@ -29,11 +45,166 @@ export function spawnEngineProcess(
   options: SpawnOptions & { stdio: ["ignore", "pipe", "pipe"] },
   envFilePath?: string,
 ): ChildProcessByStdio<null, Readable, Readable> {
+  const spawnOptions = { ...options, detached: true };
+  let proc: ChildProcessByStdio<null, Readable, Readable>;
   if (!envFilePath) {
-    return spawn(cmd, args, options);
+    proc = spawn(cmd, args, spawnOptions);
+  } else {
+    const quotedParts = [cmd, ...args].map(shellQuote).join(" ");
+    const shellCmd = `set -a; . ${shellQuote(envFilePath)}; set +a; exec ${quotedParts}`;
+    proc = spawn("sh", ["-c", shellCmd], spawnOptions);
+  }
+  liveProcesses.add(proc);
+  proc.once("close", () => liveProcesses.delete(proc));
+  return proc;
+}
+
+function hasExited(proc: ChildProcess): boolean {
+  return proc.exitCode !== null || proc.signalCode !== null;
+}
+
+/**
+ * Stop every engine process still running (on shutdown): SIGTERM to each
+ * process group, then SIGKILL to the groups once the processes have exited
+ * or the grace period is over, so no agent keeps editing the project.
+ */
+export async function stopEngineProcesses(): Promise<void> {
+  const procs = [...liveProcesses];
+  if (procs.length === 0) return;
+
+  for (const proc of procs) killProcessTree(proc, "SIGTERM");
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    Promise.all(
+      procs.map(
+        (proc) =>
+          new Promise<void>((resolve) => {
+            if (hasExited(proc)) resolve();
+            else proc.once("exit", () => resolve());
+          }),
+      ),
+    ),
+    new Promise<void>((resolve) => {
+      graceTimer = setTimeout(resolve, KILL_GRACE_MS);
+    }),
+  ]);
+  clearTimeout(graceTimer);
+  // Also reaches tools left in a group whose leader already exited
+  for (const proc of procs) killProcessTree(proc, "SIGKILL");
+}
+
+/**
+ * Send a signal to the whole process group of an engine child.
+ * Falls back to signalling the child alone when the group is gone.
+ */
+export function killProcessTree(
+  proc: ChildProcess,
+  signal: NodeJS.Signals,
+): void {
+  if (proc.pid === undefined) return;
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    try {
+      proc.kill(signal);
+    } catch {
+      // Process already exited
+    }
+  }
+}
+
+export interface EngineProcessWatch {
+  /** True once the process was stopped because the abort signal fired. */
+  readonly aborted: boolean;
+  /** True once the process was stopped because it ran past `timeoutMs`. */
+  readonly timedOut: boolean;
+  /** Detach listeners and timers; call when the process has closed. */
+  dispose(): void;
+}
+
+/**
+ * Tie a spawned engine process to an AbortSignal and an optional wall-clock
+ * limit. When either fires the process group gets SIGTERM, then SIGKILL if it
+ * is still running after a short grace period.
+ */
+export function watchEngineProcess(
+  proc: ChildProcess,
+  options: { signal?: AbortSignal; timeoutMs?: number },
+): EngineProcessWatch {
+  const { signal, timeoutMs } = options;
+  let aborted = false;
+  let timedOut = false;
+  let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const terminate = () => {
+    killProcessTree(proc, "SIGTERM");
+    killTimer = setTimeout(() => {
+      if (proc.exitCode === null && proc.signalCode === null) {
+        killProcessTree(proc, "SIGKILL");
+      }
+    }, KILL_GRACE_MS);
+  };
+
+  const onAbort = () => {
+    if (aborted || timedOut) return;
+    aborted = true;
+    terminate();
+  };
+
+  const timeoutTimer = timeoutMs
+    ? setTimeout(() => {
+        if (aborted) return;
+        timedOut = true;
+        terminate();
+      }, timeoutMs)
+    : undefined;
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
   }
 
-  const quotedParts = [cmd, ...args].map(shellQuote).join(" ");
-  const shellCmd = `set -a; . ${shellQuote(envFilePath)}; set +a; exec ${quotedParts}`;
-  return spawn("sh", ["-c", shellCmd], options);
+  return {
+    get aborted() {
+      return aborted;
+    },
+    get timedOut() {
+      return timedOut;
+    },
+    dispose() {
+      signal?.removeEventListener("abort", onAbort);
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+    },
+  };
+}
+
+/**
+ * Result returned by adapters when a run was stopped through its abort signal.
+ * `output` carries whatever the engine produced before it was killed.
+ */
+export function abortedEngineResult(output: string): EngineResult {
+  return {
+    success: false,
+    aborted: true,
+    output,
+    error: "Stopped by user",
+  };
+}
+
+/**
+ * Result returned by adapters when a run was killed for exceeding
+ * `engine.timeoutMs`. `output` carries whatever the engine produced so far.
+ */
+export function timedOutEngineResult(
+  output: string,
+  timeoutMs: number | undefined,
+): EngineResult {
+  return {
+    success: false,
+    timedOut: true,
+    output,
+    error: `Timed out after ${(timeoutMs ?? 0) / 1000}s`,
+  };
 }
@@ -9,7 +9,9 @@ export type EngineName =
   | "codex"
   | "opencode"
   | "cursor"
-  | "antigravity";
+  | "antigravity"
+  | "custom"
+  | "http";
 
 export const ENGINE_NAMES: readonly EngineName[] = [
   "claude",
@@ -18,8 +20,96 @@ export const ENGINE_NAMES: readonly EngineName[] = [
   "opencode",
   "cursor",
   "antigravity",
+  "custom",
+  "http",
 ] as const;
 
+// ─── Permission mode ────────────────────────────────────────────────────────
+
+/**
+ * What the agent may do in a run: `plan` (propose, change nothing),
+ * `readonly` (read and run read-only tools) or `full` (edit the project).
+ */
+export type EngineMode = "plan" | "readonly" | "full";
+
+export const ENGINE_MODES: readonly EngineMode[] = [
+  "plan",
+  "readonly",
+  "full",
+] as const;
+
+// ─── Tool approvals ─────────────────────────────────────────────────────────
+
+/** A tool call the engine asks permission for (see engine.approvals). */
+export interface ToolApprovalRequest {
+  /** Tool name as the engine reports it, e.g. "Bash" or "mcp__github__create_pr". */
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export type ToolApprovalDecision =
+  | { allow: true }
+  | { allow: false; message: string };
+
+// ─── Custom engine ──────────────────────────────────────────────────────────
+
+/**
+ * Config-driven description of an arbitrary agent CLI (`engine.name: custom`).
+ * Arg lists support `{prompt}`, `{model}`, `{sessionId}` and `{cwd}`
+ * placeholders; see docs/engines/custom/README.md.
+ */
+export interface CustomEngineConfig {
+  /** Human-readable name for logs and errors. */
+  displayName?: string;
+  /** Argument template. `{prompt}` is appended as last arg when absent. */
+  args: string[];
+  /** Args spliced at `{modelArgs}` (or appended) when a model is set. */
+  modelArgs?: string[];
+  /** Args used to check the CLI at boot (default `["--version"]`). */
+  versionArgs?: string[];
+  session?: {
+    /** none = stateless; shared = one conversation per cwd; user = resume by id. */
+    mode: "none" | "shared" | "user";
+    /** Args spliced at `{sessionArgs}` to continue the latest conversation. */
+    continueArgs?: string[];
+    /** Args spliced at `{sessionArgs}` to resume `{sessionId}` (mode: user). */
+    resumeArgs?: string[];
+  };
+  output?: {
+    format: "text" | "jsonl";
+    /** jsonl: dotted path to the reply text; the last match wins. */
+    textPath?: string;
+    /** jsonl: dotted path to the session id. */
+    sessionPath?: string;
+    /** text: regex whose first group captures the session id (stdout + stderr). */
+    sessionRegex?: string;
+  };
+  /** Skill directory, relative to the project cwd. */
+  skillsDir?: string;
+  /** Instructions file scaffolded by `hal init` (default `AGENTS.md`). */
+  instructionsFile?: string;
+}
+
+// ─── HTTP engine ────────────────────────────────────────────────────────────
+
+/**
+ * Direct LLM API settings (`engine.name: http`). No CLI is involved: HAL
+ * calls the endpoint itself and keeps the conversation in session.json.
+ */
+export interface HttpEngineConfig {
+  /** Wire protocol: OpenAI Chat Completions or Anthropic Messages. */
+  api: "openai" | "anthropic";
+  /** API root, e.g. `http://localhost:11434/v1` for Ollama. */
+  baseUrl?: string;
+  apiKey?: string;
+  /** System prompt sent with every request. */
+  systemPrompt?: string;
+  /** Max tokens per reply (required by the Anthropic API; default 4096). */
+  maxTokens?: number;
+  /** Max past messages sent with a request (default 40). */
+  maxHistory?: number;
+}
+
 // ─── Shared execute / result types ──────────────────────────────────────────
 
 export interface EngineExecuteOptions {
@@ -29,11 +119,33 @@ export interface EngineExecuteOptions {
   downloadsPath?: string;
   sessionId?: string | null;
   onProgress?: (message: string) => void;
+  /**
+   * Streaming hook: called with the assistant text produced so far for the
+   * current reply (cumulative, not a delta). Adapters that cannot stream
+   * never call it.
+   */
+  onPartialText?: (text: string) => void;
   /** When false, do not continue previous session (e.g. for /clean renewal). */
   continueSession?: boolean;
   // When true, instruct the adapter to avoid any session-resume behaviour
   // for this single call (e.g. Copilot: do not pass --continue).
   forceNoSession?: boolean;
+  /** Aborting kills the engine process tree (e.g. /stop from Telegram). */
+  signal?: AbortSignal;
+  /** Permission mode of this call (see /mode); undefined = full. */
+  mode?: EngineMode;
+  /**
+   * Permission broker: asked for each tool call the engine is not already
+   * allowed to make. Adapters that cannot defer approvals ignore it.
+   */
+  approve?: (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+}
+
+/** Token usage and cost of one engine call, when the CLI reports them. */
+export interface EngineUsage {
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 export interface EngineResult {
@@ -41,6 +153,13 @@ export interface EngineResult {
   output: string;
   sessionId?: string;
   error?: string;
+  /** True when the run was stopped via `EngineExecuteOptions.signal`. */
+  aborted?: boolean;
+  /** True when the run was killed for exceeding `engine.timeoutMs`. */
+  timedOut?: boolean;
+  usage?: EngineUsage;
+  /** Set when a fallback engine answered instead of the configured one. */
+  fallbackEngine?: EngineName;
 }
 
 export interface ParsedResponse {
@@ -74,6 +193,11 @@ export interface EngineAdapter {
   check(): void;
   /** Session behavior capabilities used by config/session policy. */
   readonly sessionCapabilities: EngineSessionCapabilities;
+  /**
+   * True when execute() maps `mode` to the CLI's own permission flags.
+   * Other engines always run with their configured permissions.
+   */
+  readonly supportsModes?: boolean;
   /** Execute a prompt and return a normalised result */
   execute(
     options: EngineExecuteOptions,
@@ -7,13 +7,13 @@ import { getDownloadsPath } from "../user/setup.js";
 
 /**
  * Send all files from the user's downloads folder and delete them after sending.
- * Returns the number of files sent.
+ * Returns the names of the files sent.
  */
 export async function sendDownloadFiles(
   gramCtx: Context,
   userDir: string,
   ctx: ProjectContext,
-): Promise<number> {
+): Promise<string[]> {
   const { logger } = ctx;
   const downloadsPath = getDownloadsPath(userDir);
 
@@ -22,14 +22,10 @@ export async function sendDownloadFiles(
     files = await readdir(downloadsPath);
   } catch {
     // Directory doesn't exist or can't be read
-    return 0;
+    return [];
   }
 
-  if (files.length === 0) {
-    return 0;
-  }
-
-  let sentCount = 0;
+  const sent: string[] = [];
 
   for (const fileName of files) {
     const filePath = join(downloadsPath, fileName);
@@ -43,7 +39,7 @@ export async function sendDownloadFiles(
       await unlink(filePath);
       logger.debug({ fileName }, "Deleted sent file");
 
-      sentCount++;
+      sent.push(fileName);
     } catch (error) {
       logger.error(
         { error, fileName },
@@ -53,10 +49,10 @@ export async function sendDownloadFiles(
     }
 
     // Small delay between files to avoid rate limiting
-    if (sentCount < files.length) {
+    if (sent.length < files.length) {
       await new Promise((resolve) => setTimeout(resolve, 500));
     }
   }
 
-  return sentCount;
+  return sent;
 }
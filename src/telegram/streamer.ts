@@ -0,0 +1,137 @@
+import type { Context } from "grammy";
+import { chunkMessage } from "./chunker.js";
+
+/** Minimum time between two rounds of edits (Telegram rate-limits edits). */
+const DEFAULT_THROTTLE_MS = 1500;
+
+export interface MessageStreamer {
+  /** True once at least one message has been sent. */
+  readonly started: boolean;
+  /**
+   * Replace the streamed text. Rendering is throttled; only the latest text
+   * is rendered when several updates arrive within the throttle window.
+   */
+  update(text: string): void;
+  /**
+   * Stop streaming and render the final text (Markdown, with a plain-text
+   * fallback). Without `finalText` the last streamed text is kept as is.
+   */
+  finish(finalText?: string): Promise<void>;
+}
+
+/**
+ * Render a growing text into editable Telegram messages.
+ *
+ * The text lives in one message that is edited in place; once it exceeds
+ * Telegram's 4096-char limit the overflow rolls over into a new message.
+ * Messages are only sent on the first update, so a streamer that never
+ * receives text leaves the chat untouched.
+ */
+export function createMessageStreamer(
+  gramCtx: Context,
+  options: { throttleMs?: number } = {},
+): MessageStreamer {
+  const throttleMs = options.throttleMs ?? DEFAULT_THROTTLE_MS;
+  const chatId = gramCtx.chat?.id;
+
+  const messageIds: number[] = [];
+  const rendered: string[] = [];
+  let latest = "";
+  let lastRenderAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Renders are chained so edits never overlap or arrive out of order
+  let rendering: Promise<void> = Promise.resolve();
+
+  async function renderChunks(text: string, markdown: boolean) {
+    if (!chatId || !text.trim()) return;
+    const chunks = chunkMessage(text);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      if (rendered[i] === chunk && !markdown) continue;
+      try {
+        if (i < messageIds.length) {
+          await editChunk(messageIds[i], chunk, markdown);
+        } else {
+          const msg = await sendChunk(chunk, markdown);
+          messageIds.push(msg.message_id);
+        }
+        rendered[i] = chunk;
+      } catch {
+        // Ignore edit errors (e.g. text unchanged, rate limited)
+      }
+    }
+
+    // The text shrank (e.g. the engine started a new reply): drop leftovers
+    while (messageIds.length > chunks.length) {
+      const id = messageIds.pop() as number;
+      rendered.pop();
+      try {
+        await gramCtx.api.deleteMessage(chatId, id);
+      } catch {
+        // Ignore delete errors
+      }
+    }
+  }
+
+  async function editChunk(id: number, chunk: string, markdown: boolean) {
+    if (!chatId) return;
+    if (markdown) {
+      try {
+        await gramCtx.api.editMessageText(chatId, id, chunk, {
+          parse_mode: "Markdown",
+        });
+        return;
+      } catch {
+        // Fall back to plain text
+      }
+    }
+    await gramCtx.api.editMessageText(chatId, id, chunk);
+  }
+
+  async function sendChunk(chunk: string, markdown: boolean) {
+    if (markdown) {
+      try {
+        return await gramCtx.reply(chunk, { parse_mode: "Markdown" });
+      } catch {
+        // Fall back to plain text
+      }
+    }
+    return gramCtx.reply(chunk);
+  }
+
+  function schedule() {
+    if (timer) return;
+    const wait = Math.max(0, lastRenderAt + throttleMs - Date.now());
+    timer = setTimeout(() => {
+      timer = undefined;
+      lastRenderAt = Date.now();
+      const text = latest;
+      rendering = rendering.then(() => renderChunks(text, false));
+    }, wait);
+  }
+
+  return {
+    get started() {
+      return messageIds.length > 0;
+    },
+
+    update(text: string) {
+      latest = text;
+      schedule();
+    },
+
+    async finish(finalText?: string) {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      await rendering;
+      if (finalText !== undefined) {
+        await renderChunks(finalText, true);
+      } else if (latest && latest !== rendered.join("")) {
+        await renderChunks(latest, false);
+      }
+    },
+  };
+}
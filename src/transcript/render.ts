@@ -0,0 +1,124 @@
+import type { Transcript, TranscriptEntry } from "./store.js";
+
+export const EXPORT_FORMATS = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportMeta {
+  project: string;
+  exportedAt: Date;
+}
+
+function speaker(entry: TranscriptEntry): string {
+  if (entry.role === "user") return entry.user ?? "User";
+  const engine = entry.engine ?? "Assistant";
+  return entry.model ? `${engine} (${entry.model})` : engine;
+}
+
+/** "2026-10-19 19:03:17 UTC" */
+function formatTs(iso: string): string {
+  return `${iso.slice(0, 19).replace("T", " ")} UTC`;
+}
+
+function statusNote(entry: TranscriptEntry): string | undefined {
+  return entry.status && entry.status !== "ok" ? entry.status : undefined;
+}
+
+function toMarkdown(transcript: Transcript, meta: ExportMeta): string {
+  const lines = [
+    `# ${meta.project} — session "${transcript.session}"`,
+    "",
+    `_Exported ${formatTs(meta.exportedAt.toISOString())}_`,
+  ];
+  for (const entry of transcript.entries) {
+    const note = statusNote(entry);
+    lines.push(
+      "",
+      `## ${speaker(entry)} · ${formatTs(entry.ts)}${note ? ` · ${note}` : ""}`,
+      "",
+      entry.text,
+    );
+    if (entry.files?.length) {
+      lines.push("", `Files: ${entry.files.map((f) => `\`${f}\``).join(", ")}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+header { border-bottom: 1px solid #ddd; margin-bottom: 1.5rem; }
+.entry { border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.user { background: #eef4ff; }
+.assistant { background: #f5f5f5; }
+.meta { font-size: 0.8rem; color: #666; margin-bottom: 0.5rem; }
+.status { color: #b00020; }
+pre { white-space: pre-wrap; word-wrap: break-word; margin: 0; font-family: ui-monospace, monospace; font-size: 0.9rem; }
+.files { font-size: 0.85rem; margin-top: 0.5rem; }
+`;
+
+function toHtml(transcript: Transcript, meta: ExportMeta): string {
+  const title = `${meta.project} — session "${transcript.session}"`;
+  const entries = transcript.entries.map((entry) => {
+    const note = statusNote(entry);
+    const files = entry.files?.length
+      ? `<div class="files">Files: ${entry.files.map((f) => `<code>${escapeHtml(f)}</code>`).join(", ")}</div>`
+      : "";
+    return [
+      `<section class="entry ${entry.role}">`,
+      `<div class="meta"><strong>${escapeHtml(speaker(entry))}</strong> · ${formatTs(entry.ts)}${note ? ` · <span class="status">${note}</span>` : ""}</div>`,
+      `<pre>${escapeHtml(entry.text)}</pre>`,
+      files,
+      "</section>",
+    ].join("\n");
+  });
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<header><h1>${escapeHtml(title)}</h1><p>Exported ${formatTs(meta.exportedAt.toISOString())}</p></header>`,
+    ...entries,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render a session transcript as a standalone Markdown, JSON or HTML document.
+ */
+export function renderTranscript(
+  transcript: Transcript,
+  format: ExportFormat,
+  meta: ExportMeta,
+): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(transcript, meta);
+    case "json":
+      return `${JSON.stringify(
+        {
+          project: meta.project,
+          session: transcript.session,
+          exportedAt: meta.exportedAt.toISOString(),
+          entries: transcript.entries,
+        },
+        null,
+        2,
+      )}\n`;
+    case "html":
+      return toHtml(transcript, meta);
+  }
+}
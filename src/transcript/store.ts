@@ -0,0 +1,93 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { DEFAULT_SESSION_NAME } from "../user/sessions.js";
+import { readSessionData, writeSessionData } from "../user/setup.js";
+
+const TRANSCRIPTS_DIR = "transcripts";
+
+/** One message of a conversation, as appended to the session transcript. */
+export interface TranscriptEntry {
+  /** ISO timestamp (the prompt's arrival, or the end of the engine call). */
+  ts: string;
+  role: "user" | "assistant";
+  text: string;
+  /** Telegram user who sent the prompt (user entries). */
+  user?: string;
+  /** Engine and model that answered (assistant entries). */
+  engine?: string;
+  model?: string;
+  /** Files uploaded with the prompt, or sent back with the reply. */
+  files?: string[];
+  /** How the engine call ended (assistant entries). */
+  status?: "ok" | "error" | "stopped" | "timed out";
+}
+
+export interface Transcript {
+  /** Name of the session (see /sessions). */
+  session: string;
+  entries: TranscriptEntry[];
+}
+
+function transcriptFile(userDir: string, transcriptId: string): string {
+  return join(userDir, TRANSCRIPTS_DIR, `${transcriptId}.jsonl`);
+}
+
+/**
+ * Append entries to the transcript of the user's active session.
+ * The transcript id is created on first use and kept in session.json, so it
+ * follows the session through /sessions switches and is reset by /clean.
+ */
+export async function appendTranscript(
+  userDir: string,
+  entries: TranscriptEntry[],
+): Promise<void> {
+  const data = await readSessionData(userDir);
+  let transcriptId = data?.transcriptId;
+  if (!transcriptId) {
+    transcriptId = randomUUID();
+    await writeSessionData(userDir, {
+      ...data,
+      currentSessionId: data?.currentSessionId ?? null,
+      transcriptId,
+    });
+  }
+  await mkdir(join(userDir, TRANSCRIPTS_DIR), { recursive: true });
+  await appendFile(
+    transcriptFile(userDir, transcriptId),
+    entries.map((e) => `${JSON.stringify(e)}\n`).join(""),
+    "utf-8",
+  );
+}
+
+/**
+ * Read the transcript of the user's active session.
+ * Missing file and malformed lines are treated as no entries.
+ */
+export async function readTranscript(userDir: string): Promise<Transcript> {
+  const data = await readSessionData(userDir);
+  const transcript: Transcript = {
+    session: data?.name ?? DEFAULT_SESSION_NAME,
+    entries: [],
+  };
+  if (!data?.transcriptId) return transcript;
+
+  let content: string;
+  try {
+    content = await readFile(
+      transcriptFile(userDir, data.transcriptId),
+      "utf-8",
+    );
+  } catch {
+    return transcript;
+  }
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      transcript.entries.push(JSON.parse(line) as TranscriptEntry);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return transcript;
+}
@@ -0,0 +1,286 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Context } from "grammy";
+import { InlineKeyboard } from "grammy";
+import type { BudgetCaps } from "../config.js";
+import type { EngineResult } from "../engine/types.js";
+import type { ProjectContext } from "../types.js";
+import {
+  appendUsage,
+  formatCost,
+  formatTokens,
+  readUsage,
+  sumUsage,
+  type UsageRecord,
+} from "./store.js";
+
+const LIFTS_FILE = "budget-lifts.json";
+
+export type BudgetPeriod = "day" | "month";
+
+/** A cap that has been reached for the current period. */
+export interface BudgetBreach {
+  /** "project" or `user:<id>` */
+  scope: string;
+  period: BudgetPeriod;
+  metric: "usd" | "tokens";
+  limit: number;
+  used: number;
+  /** Identifies the period instance, e.g. `day:2026-10-19` or `month:2026-10`. */
+  periodKey: string;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * Key of the current day/month in local time. A lift recorded for a key
+ * stops applying as soon as the period changes.
+ */
+export function periodKey(period: BudgetPeriod, now = new Date()): string {
+  const month = `${now.getFullYear()}-${pad(now.getMonth() + 1)}`;
+  return period === "day"
+    ? `day:${month}-${pad(now.getDate())}`
+    : `month:${month}`;
+}
+
+function periodStart(period: BudgetPeriod, now: Date): Date {
+  return period === "day"
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/** Lift key: one scope, one period instance. */
+export function liftKey(breach: Pick<BudgetBreach, "scope" | "periodKey">) {
+  return `${breach.scope}@${breach.periodKey}`;
+}
+
+function checkCaps(
+  scope: string,
+  caps: BudgetCaps,
+  records: UsageRecord[],
+  now: Date,
+): BudgetBreach[] {
+  const breaches: BudgetBreach[] = [];
+  const checks: Array<[BudgetPeriod, number | undefined, number | undefined]> =
+    [
+      ["day", caps.dailyUsd, caps.dailyTokens],
+      ["month", caps.monthlyUsd, caps.monthlyTokens],
+    ];
+
+  for (const [period, usdCap, tokenCap] of checks) {
+    if (usdCap === undefined && tokenCap === undefined) continue;
+    const since = periodStart(period, now);
+    const totals = sumUsage(records.filter((r) => new Date(r.ts) >= since));
+    const key = periodKey(period, now);
+    if (usdCap !== undefined && totals.costUsd >= usdCap) {
+      breaches.push({
+        scope,
+        period,
+        metric: "usd",
+        limit: usdCap,
+        used: totals.costUsd,
+        periodKey: key,
+      });
+    }
+    const tokens = totals.inputTokens + totals.outputTokens;
+    if (tokenCap !== undefined && tokens >= tokenCap) {
+      breaches.push({
+        scope,
+        period,
+        metric: "tokens",
+        limit: tokenCap,
+        used: tokens,
+        periodKey: key,
+      });
+    }
+  }
+  return breaches;
+}
+
+/**
+ * Return the first cap reached by the project or by the user that has not
+ * been lifted by an admin, or undefined when the user may go on.
+ */
+export async function findBudgetBreach(
+  dataDir: string,
+  budget: { project: BudgetCaps; user: BudgetCaps },
+  userId: number,
+  now = new Date(),
+): Promise<BudgetBreach | undefined> {
+  const hasCaps = (caps: BudgetCaps) =>
+    Object.values(caps).some((v) => v !== undefined);
+  if (!hasCaps(budget.project) && !hasCaps(budget.user)) return undefined;
+
+  const records = await readUsage(dataDir, periodStart("month", now));
+  const breaches = [
+    ...checkCaps("project", budget.project, records, now),
+    ...checkCaps(
+      `user:${userId}`,
+      budget.user,
+      records.filter((r) => r.userId === userId),
+      now,
+    ),
+  ];
+  if (breaches.length === 0) return undefined;
+
+  const lifts = await readLifts(dataDir);
+  return breaches.find((b) => !lifts.includes(liftKey(b)));
+}
+
+async function readLifts(dataDir: string): Promise<string[]> {
+  try {
+    const parsed = JSON.parse(
+      await readFile(join(dataDir, LIFTS_FILE), "utf-8"),
+    );
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record an admin lift for a scope until the end of the given period.
+ * Lifts of past periods are dropped on the way.
+ */
+export async function addBudgetLift(
+  dataDir: string,
+  key: string,
+  now = new Date(),
+): Promise<void> {
+  const current = [periodKey("day", now), periodKey("month", now)];
+  const lifts = (await readLifts(dataDir)).filter((k) =>
+    current.some((p) => k.endsWith(`@${p}`)),
+  );
+  if (!lifts.includes(key)) lifts.push(key);
+  await writeFile(
+    join(dataDir, LIFTS_FILE),
+    `${JSON.stringify(lifts, null, 2)}\n`,
+    "utf-8",
+  );
+}
+
+/**
+ * Human-readable description of a reached cap.
+ */
+export function describeBreach(breach: BudgetBreach): string {
+  const who =
+    breach.scope === "project"
+      ? "The project's"
+      : `User ${breach.scope.slice("user:".length)}'s`;
+  const period = breach.period === "day" ? "daily" : "monthly";
+  const amount =
+    breach.metric === "usd"
+      ? `${formatCost(breach.used)} of ${formatCost(breach.limit)}`
+      : `${formatTokens(breach.used)} of ${formatTokens(breach.limit)} tokens`;
+  return `${who} ${period} budget is used up (${amount}).`;
+}
+
+async function notifyAdmins(
+  ctx: ProjectContext,
+  gramCtx: Context,
+  breach: BudgetBreach,
+): Promise<void> {
+  const { adminUserIds } = ctx.config.access;
+  const projectName = ctx.config.name ?? ctx.config.slug;
+  const until = breach.period === "day" ? "end of day" : "end of month";
+  const keyboard =
+    ctx.config.budget.mode === "block"
+      ? new InlineKeyboard().text(
+          `Lift until ${until}`,
+          `bg:${liftKey(breach)}`,
+        )
+      : undefined;
+
+  for (const adminId of adminUserIds) {
+    try {
+      await gramCtx.api.sendMessage(
+        adminId,
+        `Budget alert (${projectName}): ${describeBreach(breach)}`,
+        { reply_markup: keyboard },
+      );
+    } catch (err) {
+      ctx.logger.warn({ err, adminId }, "Could not notify admin");
+    }
+  }
+}
+
+/** Thrown by `Agent.call` when a budget cap refuses the call. */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Lift keys (project + scope + period) already reported, and warnings
+// already sent (lift key + user)
+const notified = new Set<string>();
+const warned = new Set<string>();
+
+/**
+ * Check the usage log against `budget` caps before an engine call made on
+ * behalf of the user behind `gramCtx`. Returns the refusal to show in
+ * "block" mode, or undefined when the call may go on; in "warn" mode the
+ * user is warned once per period. Admins are notified once per reached cap
+ * and period.
+ */
+export async function checkBudget(
+  ctx: ProjectContext,
+  gramCtx: Context,
+): Promise<string | undefined> {
+  const userId = gramCtx.from?.id;
+  if (!userId) return undefined;
+
+  const { config, logger } = ctx;
+  let breach: BudgetBreach | undefined;
+  try {
+    breach = await findBudgetBreach(config.dataDir, config.budget, userId);
+  } catch (err) {
+    logger.warn({ err }, "Budget check failed");
+  }
+  if (!breach) return undefined;
+
+  const key = `${config.slug}:${liftKey(breach)}`;
+  if (!notified.has(key)) {
+    notified.add(key);
+    logger.warn({ userId, breach }, "Budget cap reached");
+    await notifyAdmins(ctx, gramCtx, breach);
+  }
+
+  if (config.budget.mode === "warn") {
+    const warnKey = `${key}#${userId}`;
+    if (!warned.has(warnKey)) {
+      warned.add(warnKey);
+      await gramCtx.reply(`⚠️ ${describeBreach(breach)}`);
+    }
+    return undefined;
+  }
+
+  const resumes = breach.period === "day" ? "tomorrow" : "next month";
+  return `${describeBreach(breach)} New requests are blocked until ${resumes} unless an admin lifts the block.`;
+}
+
+/**
+ * Append an engine call made for `userId` (0 for crons) to the usage log.
+ * Failures are logged: a missing record must not fail the call.
+ */
+export async function recordUsage(
+  ctx: ProjectContext,
+  userId: number,
+  result: EngineResult,
+): Promise<void> {
+  const { config, logger } = ctx;
+  try {
+    await appendUsage(config.dataDir, {
+      ts: new Date().toISOString(),
+      userId,
+      engine: result.fallbackEngine ?? config.engine,
+      model: result.fallbackEngine ? undefined : config.engineModel,
+      ...result.usage,
+    });
+  } catch (err) {
+    logger.warn({ err }, "Failed to record usage");
+  }
+}
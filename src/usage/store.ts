@@ -0,0 +1,101 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const USAGE_FILE = "usage.jsonl";
+
+/** One engine call, as appended to `{dataDir}/usage.jsonl`. */
+export interface UsageRecord {
+  /** ISO timestamp of the end of the call. */
+  ts: string;
+  userId: number;
+  engine: string;
+  model?: string;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Append a usage record to the project's usage log.
+ */
+export async function appendUsage(
+  dataDir: string,
+  record: UsageRecord,
+): Promise<void> {
+  await mkdir(dataDir, { recursive: true });
+  await appendFile(
+    join(dataDir, USAGE_FILE),
+    `${JSON.stringify(record)}\n`,
+    "utf-8",
+  );
+}
+
+/**
+ * Read the usage records of a project logged at or after `since`.
+ * Missing file and malformed lines are treated as no usage.
+ */
+export async function readUsage(
+  dataDir: string,
+  since: Date,
+): Promise<UsageRecord[]> {
+  let content: string;
+  try {
+    content = await readFile(join(dataDir, USAGE_FILE), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as UsageRecord;
+      if (new Date(record.ts) >= since) records.push(record);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return records;
+}
+
+/**
+ * Sum calls, cost and tokens of a list of records.
+ */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = {
+    calls: 0,
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+  };
+  for (const r of records) {
+    totals.calls += 1;
+    totals.costUsd += r.costUsd ?? 0;
+    totals.inputTokens += r.inputTokens ?? 0;
+    totals.outputTokens += r.outputTokens ?? 0;
+  }
+  return totals;
+}
+
+/**
+ * Compact token count: 845, 12.3k, 1.2M.
+ */
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+/**
+ * Cost with enough precision for single calls ($0.0042) and totals ($12.34).
+ */
+export function formatCost(usd: number): string {
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+}
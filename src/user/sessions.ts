@@ -0,0 +1,169 @@
+import {
+  type NamedSession,
+  readSessionData,
+  type SessionData,
+  writeSessionData,
+} from "./setup.js";
+
+/** Name shown for the active session until the user names it. */
+export const DEFAULT_SESSION_NAME = "default";
+
+const SESSION_NAME = /^[\w-]{1,32}$/;
+
+/** User-facing error of a named-session operation (bad or unknown name). */
+export class NamedSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NamedSessionError";
+  }
+}
+
+function activeSession(data: SessionData | null): NamedSession {
+  return {
+    name: data?.name ?? DEFAULT_SESSION_NAME,
+    sessionId: data?.currentSessionId ?? null,
+    startedAt: data?.startedAt,
+    lastMessageAt: data?.lastMessageAt,
+    firstPrompt: data?.firstPrompt,
+    history: data?.history,
+    transcriptId: data?.transcriptId,
+  };
+}
+
+/** Top-level session.json fields for a session that becomes the active one. */
+function asActive(
+  session: NamedSession,
+  sessions: NamedSession[],
+): SessionData {
+  return {
+    currentSessionId: session.sessionId,
+    active: session.sessionId !== null,
+    startedAt: session.startedAt,
+    lastMessageAt: session.lastMessageAt,
+    history: session.history,
+    name: session.name,
+    firstPrompt: session.firstPrompt,
+    transcriptId: session.transcriptId,
+    sessions,
+  };
+}
+
+/** The active session is worth keeping when it was named or has been used. */
+function isWorthKeeping(session: NamedSession): boolean {
+  return session.name !== DEFAULT_SESSION_NAME || session.sessionId !== null;
+}
+
+function validateName(name: string): void {
+  if (!SESSION_NAME.test(name)) {
+    throw new NamedSessionError(
+      "Session names use letters, digits, _ and - (max 32 characters).",
+    );
+  }
+}
+
+function findSession(sessions: NamedSession[], name: string): number {
+  const index = sessions.findIndex((s) => s.name === name);
+  if (index < 0) {
+    throw new NamedSessionError(`No session named "${name}".`);
+  }
+  return index;
+}
+
+/**
+ * Active session and the other named sessions, most recently used first.
+ */
+export async function listNamedSessions(
+  userDir: string,
+): Promise<{ active: NamedSession; others: NamedSession[] }> {
+  const data = await readSessionData(userDir);
+  const others = [...(data?.sessions ?? [])].sort((a, b) =>
+    (b.lastMessageAt ?? "").localeCompare(a.lastMessageAt ?? ""),
+  );
+  return { active: activeSession(data), others };
+}
+
+/**
+ * Start a fresh session called `name` and make it the active one.
+ * The previous active session is kept (unless it is an unused default).
+ */
+export async function createNamedSession(
+  userDir: string,
+  name: string,
+): Promise<void> {
+  validateName(name);
+  const data = await readSessionData(userDir);
+  const current = activeSession(data);
+  const sessions = data?.sessions ?? [];
+  if (current.name === name || sessions.some((s) => s.name === name)) {
+    throw new NamedSessionError(`A session named "${name}" already exists.`);
+  }
+  await writeSessionData(
+    userDir,
+    asActive({ name, sessionId: null }, [
+      ...sessions,
+      ...(isWorthKeeping(current) ? [current] : []),
+    ]),
+  );
+}
+
+/**
+ * Make the named session the active one; the current one is kept.
+ */
+export async function switchNamedSession(
+  userDir: string,
+  name: string,
+): Promise<void> {
+  const data = await readSessionData(userDir);
+  const current = activeSession(data);
+  if (current.name === name) return;
+  const sessions = [...(data?.sessions ?? [])];
+  const [target] = sessions.splice(findSession(sessions, name), 1);
+  if (isWorthKeeping(current)) sessions.push(current);
+  await writeSessionData(userDir, asActive(target, sessions));
+}
+
+/**
+ * Rename a session (the active one when `from` is undefined).
+ */
+export async function renameNamedSession(
+  userDir: string,
+  from: string | undefined,
+  to: string,
+): Promise<void> {
+  validateName(to);
+  const data = await readSessionData(userDir);
+  const current = activeSession(data);
+  const sessions = [...(data?.sessions ?? [])];
+  if (current.name === to || sessions.some((s) => s.name === to)) {
+    throw new NamedSessionError(`A session named "${to}" already exists.`);
+  }
+  if (from === undefined || from === current.name) {
+    await writeSessionData(
+      userDir,
+      asActive({ ...current, name: to }, sessions),
+    );
+    return;
+  }
+  const index = findSession(sessions, from);
+  sessions[index] = { ...sessions[index], name: to };
+  await writeSessionData(userDir, asActive(current, sessions));
+}
+
+/**
+ * Delete a session that is not the active one.
+ */
+export async function deleteNamedSession(
+  userDir: string,
+  name: string,
+): Promise<void> {
+  const data = await readSessionData(userDir);
+  const current = activeSession(data);
+  if (current.name === name) {
+    throw new NamedSessionError(
+      "The active session cannot be deleted: switch to another one first, or use /clean to start it over.",
+    );
+  }
+  const sessions = [...(data?.sessions ?? [])];
+  sessions.splice(findSession(sessions, name), 1);
+  await writeSessionData(userDir, asActive(current, sessions));
+}
@@ -0,0 +1,37 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EngineMode } from "../engine/types.js";
+
+/**
+ * Content of `{userDir}/settings.json`: preferences that outlive sessions
+ * (kept by /clean and /sessions, wiped by /reset).
+ */
+export interface UserSettings {
+  /** Permission mode chosen with /mode; undefined = `engine.mode`. */
+  mode?: EngineMode;
+  /** Tool rules allowed with "Always" on an approval prompt, e.g. "Bash(git)". */
+  allowedTools?: string[];
+}
+
+export async function readUserSettings(userDir: string): Promise<UserSettings> {
+  try {
+    return JSON.parse(
+      await readFile(join(userDir, "settings.json"), "utf-8"),
+    ) as UserSettings;
+  } catch {
+    return {};
+  }
+}
+
+export async function updateUserSettings(
+  userDir: string,
+  patch: Partial<UserSettings>,
+): Promise<void> {
+  const settings = { ...(await readUserSettings(userDir)), ...patch };
+  await mkdir(userDir, { recursive: true });
+  await writeFile(
+    join(userDir, "settings.json"),
+    JSON.stringify(settings, null, 2),
+    "utf-8",
+  );
+}
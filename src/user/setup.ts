@@ -2,10 +2,65 @@ import { constants } from "node:fs";
 import { access, mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 
-interface SessionData {
+/** One turn of a conversation kept by HAL itself (http engine). */
+export interface SessionMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** A named session that is not the active one (see /sessions). */
+export interface NamedSession {
+  name: string;
+  sessionId: string | null;
+  startedAt?: string;
+  lastMessageAt?: string;
+  firstPrompt?: string;
+  history?: SessionMessage[];
+  transcriptId?: string;
+}
+
+/** Content of `{userDir}/session.json`; top-level fields describe the active session. */
+export interface SessionData {
   currentSessionId: string | null;
   active?: boolean;
+  /** When the engine session was first saved (see engine.sessionTtl). */
+  startedAt?: string;
   lastMessageAt?: string;
+  /** Conversation history, for engines without server-side sessions. */
+  history?: SessionMessage[];
+  /** Name of the active session; undefined until the user names sessions. */
+  name?: string;
+  /** First prompt of the active session, shown by /sessions. */
+  firstPrompt?: string;
+  /** Summary of the previous session, prepended to the next prompt (/clean carry-over). */
+  carryOver?: string;
+  /** Transcript file of the active session (see /export). */
+  transcriptId?: string;
+  /** Inactive named sessions. */
+  sessions?: NamedSession[];
+}
+
+export async function readSessionData(
+  userDir: string,
+): Promise<SessionData | null> {
+  try {
+    const content = await readFile(join(userDir, "session.json"), "utf-8");
+    return JSON.parse(content) as SessionData;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeSessionData(
+  userDir: string,
+  sessionData: SessionData,
+): Promise<void> {
+  await mkdir(userDir, { recursive: true });
+  await writeFile(
+    join(userDir, "session.json"),
+    JSON.stringify(sessionData, null, 2),
+    "utf-8",
+  );
 }
 
 /**
@@ -48,9 +103,19 @@ export async function clearUserData(userDir: string): Promise<void> {
 
 /**
  * Clear only the session data (for /clean command).
- * Deletes session.json without touching uploads/downloads.
+ * Resets the active session without touching uploads/downloads; named
+ * sessions are kept (the active one keeps its name).
  */
 export async function clearSessionData(userDir: string): Promise<void> {
+  const previous = await readSessionData(userDir);
+  if (previous?.name || previous?.sessions?.length) {
+    await writeSessionData(userDir, {
+      currentSessionId: null,
+      name: previous.name,
+      sessions: previous.sessions,
+    });
+    return;
+  }
   const sessionFile = join(userDir, "session.json");
   try {
     await rm(sessionFile, { force: true });
@@ -59,6 +124,12 @@ export async function clearSessionData(userDir: string): Promise<void> {
   }
 }
 
+/** One-line excerpt of a prompt, as listed by /sessions. */
+function promptExcerpt(prompt: string): string {
+  const line = prompt.replace(/\s+/g, " ").trim();
+  return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+}
+
 /**
  * Get the path to user's uploads directory
  */
@@ -73,32 +144,94 @@ export function getDownloadsPath(userDir: string): string {
   return join(userDir, "downloads");
 }
 
+/** Start time of a session being saved: kept while the session ID is the same. */
+function sessionStartedAt(
+  previous: SessionData | null,
+  sessionId: string,
+  now: string,
+): string {
+  const sameSession =
+    !previous?.currentSessionId || previous.currentSessionId === sessionId;
+  return (sameSession && previous?.startedAt) || now;
+}
+
 /**
- * Save session ID for a user
+ * Save session ID for a user.
+ * History is kept only while the session ID stays the same; `prompt` is
+ * recorded as the session's first prompt when it has none yet.
  */
 export async function saveSessionId(
   userDir: string,
   sessionId: string,
+  prompt?: string,
 ): Promise<void> {
-  const sessionFile = join(userDir, "session.json");
-  const sessionData: SessionData = {
+  const previous = await readSessionData(userDir);
+  const now = new Date().toISOString();
+  await writeSessionData(userDir, {
+    ...previous,
     currentSessionId: sessionId,
     active: true,
-    lastMessageAt: new Date().toISOString(),
-  };
-  await writeFile(sessionFile, JSON.stringify(sessionData, null, 2), "utf-8");
+    startedAt: sessionStartedAt(previous, sessionId, now),
+    lastMessageAt: now,
+    history:
+      previous?.currentSessionId === sessionId ? previous.history : undefined,
+    firstPrompt:
+      previous?.firstPrompt ?? (prompt ? promptExcerpt(prompt) : undefined),
+  });
+}
+
+/**
+ * Keep a summary of the previous session for the next prompt (/clean
+ * carry-over); `undefined` drops it once it has been delivered.
+ */
+export async function saveCarryOver(
+  userDir: string,
+  summary: string | undefined,
+): Promise<void> {
+  const previous = await readSessionData(userDir);
+  await writeSessionData(userDir, {
+    ...previous,
+    currentSessionId: previous?.currentSessionId ?? null,
+    carryOver: summary,
+  });
 }
 
 /**
  * Get saved session ID for a user
  */
 export async function getSessionId(userDir: string): Promise<string | null> {
-  const sessionFile = join(userDir, "session.json");
-  try {
-    const content = await readFile(sessionFile, "utf-8");
-    const sessionData: SessionData = JSON.parse(content);
-    return sessionData.currentSessionId || null;
-  } catch {
-    return null;
-  }
+  return (await readSessionData(userDir))?.currentSessionId || null;
+}
+
+/**
+ * Get the conversation history stored with a session.
+ * Empty when the user has no session or another session is active.
+ */
+export async function getSessionHistory(
+  userDir: string,
+  sessionId: string,
+): Promise<SessionMessage[]> {
+  const sessionData = await readSessionData(userDir);
+  if (sessionData?.currentSessionId !== sessionId) return [];
+  return Array.isArray(sessionData.history) ? sessionData.history : [];
+}
+
+/**
+ * Save a session together with its conversation history.
+ */
+export async function saveSessionHistory(
+  userDir: string,
+  sessionId: string,
+  history: SessionMessage[],
+): Promise<void> {
+  const previous = await readSessionData(userDir);
+  const now = new Date().toISOString();
+  await writeSessionData(userDir, {
+    ...previous,
+    currentSessionId: sessionId,
+    active: true,
+    startedAt: sessionStartedAt(previous, sessionId, now),
+    lastMessageAt: now,
+    history,
+  });
 }